@@ -0,0 +1,99 @@
+import type { notFound, PutOptions } from './evicting-cache.js';
+
+/**
+ * Loads the values of several keys with a single call, such as one database query for every key.
+ * It resolves an array with a result for every key, in the order of the keys: the value, `notFound` if the key does not exist,
+ * or an `Error` that only the callers of that key are rejected with.
+ */
+export type BatchLoader<K, V> = (keys: K[]) => Promise<readonly (V | Error | typeof notFound)[]>;
+
+/** Options for loading the values of keys with `getAllOrLoad()` or `loader()`. */
+export type BatchLoadOptions = PutOptions & {
+	/** The maximum number of keys passed to a single call of the batch loader, which is called several times for more keys. Defaults to no limit. */
+	maxBatchSize?: number;
+};
+
+/** Loads values into a cache, merging the loads of missing keys requested in the same turn of the event loop into batches. Created by `loader()`. */
+export type CacheLoader<K, V> = {
+	/** Returns the cached value of a key, or loads it with the next batch. Rejects if the key does not exist or its result is an `Error`. */
+	load(key: K): Promise<V>;
+};
+
+/**
+ * Validates the maximum number of keys of a batch.
+ *
+ * @param maxBatchSize The maximum number of keys of a batch.
+ */
+export function validateMaxBatchSize(maxBatchSize: number): void {
+	if (!(maxBatchSize === Infinity || (Number.isInteger(maxBatchSize) && maxBatchSize > 0))) { throw new RangeError('maxBatchSize must be an integer greater than 0') }
+}
+
+/**
+ * Loads keys in batches of at most `maxBatchSize` keys, calling the batch loader once per batch.
+ *
+ * @param keys The keys to load.
+ * @param batchLoader Loads a batch of keys.
+ * @param maxBatchSize The maximum number of keys of a batch.
+ * @returns A promise for the result of each key, in the order of the keys, which rejects if the result is an `Error` or the batch failed.
+ */
+export function loadBatches<K, V>(keys: K[], batchLoader: BatchLoader<K, V>, maxBatchSize: number): Promise<V | typeof notFound>[] {
+	const results: Promise<V | typeof notFound>[] = [];
+	for (let start = 0; start < keys.length; start += maxBatchSize) {
+		const batch = keys.slice(start, start + maxBatchSize);
+		const loaded = Promise.resolve(batch).then(batchLoader).then((values) => {
+			if (values.length !== batch.length) { throw new TypeError('batchLoader must resolve an array with a result for every key') }
+
+			return values;
+		});
+		for (let index = 0; index < batch.length; index++) {
+			results.push(loaded.then((values) => {
+				const value = values[index]!;
+				if (value instanceof Error) { throw value }
+
+				return value;
+			}));
+		}
+	}
+
+	return results;
+}
+
+/** Collects the keys requested in the same turn of the event loop and loads them together once it ends. */
+export class BatchScheduler<K, V> {
+	private readonly batchLoader: BatchLoader<K, V>;
+	private readonly maxBatchSize: number;
+	private queue: { key: K; resolve: (result: Promise<V | typeof notFound>) => void }[] = [];
+
+	/**
+	 * Creates a new scheduler.
+	 *
+	 * @param batchLoader Loads a batch of keys.
+	 * @param maxBatchSize The maximum number of keys of a batch.
+	 */
+	constructor(batchLoader: BatchLoader<K, V>, maxBatchSize: number) {
+		this.batchLoader = batchLoader;
+		this.maxBatchSize = maxBatchSize;
+	}
+
+	/**
+	 * Adds a key to the next batch.
+	 *
+	 * @param key The key to load.
+	 * @returns A promise for the result of the key, which rejects if the result is an `Error` or the batch failed.
+	 */
+	schedule(key: K): Promise<V | typeof notFound> {
+		return new Promise((resolve) => {
+			// A timer rather than a microtask, so that keys requested from promise callbacks join the batch too
+			if (this.queue.length === 0) { setTimeout(() => this.dispatch(), 0) }
+			this.queue.push({ key, resolve });
+		});
+	}
+
+	/** Loads every queued key. */
+	private dispatch(): void {
+		const queue = this.queue;
+		this.queue = [];
+		const results = loadBatches(queue.map(({ key }) => key), this.batchLoader, this.maxBatchSize);
+		for (let index = 0; index < queue.length; index++) { queue[index]!.resolve(results[index]!) }
+	}
+}
@@ -0,0 +1,131 @@
+import type { CacheEventMap, EvictingCache } from './evicting-cache.js';
+
+/**
+ * A channel that carries the changes of a cache to the copies in other threads, such as a `BroadcastChannel` or a `MessagePort`.
+ * Messages are not delivered back to the channel that posted them.
+ */
+export type CoherenceChannel = {
+	postMessage(message: unknown): void;
+	addEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+	removeEventListener(type: 'message', listener: (event: { data: unknown }) => void): void;
+	/** Starts delivering messages, which a `MessagePort` only does once it is started. */
+	start?(): void;
+};
+
+/** Options used to configure a {@link CacheCoherence}. */
+export type CacheCoherenceOptions = {
+	/** Whether values put into the cache are copied to the other threads, which requires them to be structured-cloneable. Defaults to false. */
+	replicatePuts?: boolean;
+	/** Identifies the messages of the cache, so that several caches or other messages can share a channel. Defaults to `evicting-cache`. */
+	namespace?: string;
+	/** Called when a change cannot be posted, such as a value that cannot be cloned, or when a received change fails to apply. */
+	onError?: (error: unknown) => void;
+};
+
+/** A change made to a cache in another thread. Keys and values are copied by the structured clone algorithm. */
+type CoherenceMessage<K, V> = { namespace: string } & (
+	| { op: 'set'; key: K; value: V; expiresAt: number; tags: readonly string[] }
+	| { op: 'delete'; key: K }
+	| { op: 'clear' }
+	| { op: 'invalidate'; tags: readonly string[] }
+);
+
+/** The events of a cache that are mirrored in the other threads. */
+type MirroredEvent<K, V> = CacheEventMap<K, V>['set' | 'delete' | 'clear' | 'invalidate'];
+
+/**
+ * Keeps copies of an {@link EvictingCache} in several threads coherent, such as the main thread and its `worker_threads` or web workers.
+ * Every `delete()`, `clear()` and tag invalidation is mirrored in the copies of the other threads, and every `put()` as well, with its expiry and tags, if `replicatePuts` is set.
+ * Entries are still evicted and expire independently in each thread, and each thread keeps its own statistics.
+ */
+export class CacheCoherence<K, V> {
+	private readonly cache: EvictingCache<K, V>;
+	private readonly channel: CoherenceChannel;
+	private readonly namespace: string;
+	private readonly onError: (error: unknown) => void;
+	private readonly unsubscribers: (() => void)[];
+	/** Set while a received change is applied, so that it is not posted back to the other threads. */
+	private applying = false;
+
+	/**
+	 * Creates a new coherence layer and starts mirroring changes.
+	 *
+	 * @param cache The copy of the cache in this thread.
+	 * @param channel The channel to the copies in the other threads.
+	 * @param options Additional options, such as whether puts are replicated.
+	 */
+	constructor(cache: EvictingCache<K, V>, channel: CoherenceChannel, { replicatePuts = false, namespace = 'evicting-cache', onError = () => {} }: CacheCoherenceOptions = {}) {
+		this.cache = cache;
+		this.channel = channel;
+		this.namespace = namespace;
+		this.onError = onError;
+
+		const post = (event: MirroredEvent<K, V>): void => this.post(event);
+		this.unsubscribers = [ cache.on('delete', post), cache.on('clear', post), cache.on('invalidate', post) ];
+		if (replicatePuts) { this.unsubscribers.push(cache.on('set', post)) }
+		channel.addEventListener('message', this.receive);
+		channel.start?.();
+	}
+
+	/** Stops mirroring changes. The channel is left open, as it belongs to the caller. */
+	close(): void {
+		for (const unsubscribe of this.unsubscribers) { unsubscribe() }
+		this.channel.removeEventListener('message', this.receive);
+	}
+
+	/**
+	 * Posts a change made in this thread to the other threads.
+	 *
+	 * @param event The event of the change.
+	 */
+	private post(event: MirroredEvent<K, V>): void {
+		if (this.applying) { return }
+
+		let message: CoherenceMessage<K, V>;
+		switch (event.type) {
+			case 'set': message = { namespace: this.namespace, op: 'set', key: event.key, value: event.value, expiresAt: event.expiresAt, tags: event.tags }; break;
+			case 'delete': message = { namespace: this.namespace, op: 'delete', key: event.key }; break;
+			case 'clear': message = { namespace: this.namespace, op: 'clear' }; break;
+			case 'invalidate': message = { namespace: this.namespace, op: 'invalidate', tags: event.tags }; break;
+		}
+
+		try {
+			this.channel.postMessage(message);
+		} catch (error) {
+			this.onError(error);
+		}
+	}
+
+	/**
+	 * Applies a change made in another thread.
+	 *
+	 * @param event The message event.
+	 */
+	private readonly receive = ({ data }: { data: unknown }): void => {
+		const message = data as CoherenceMessage<K, V> | null | undefined;
+		if (message?.namespace !== this.namespace) { return }
+
+		this.applying = true;
+		try {
+			switch (message.op) {
+				case 'set': {
+					const { key, value, expiresAt, tags } = message;
+					if (expiresAt === Infinity) {
+						this.cache.put(key, value, { ttl: 0, tags });
+					} else if (expiresAt > Date.now()) {
+						this.cache.put(key, value, { ttl: expiresAt - Date.now(), tags });
+					}
+					// A value that expired while the message was delivered is left out
+					break;
+				}
+				case 'delete': this.cache.delete(message.key); break;
+				case 'clear': this.cache.clear(); break;
+				case 'invalidate': this.cache.invalidateTags(message.tags); break;
+			}
+		} catch (error) {
+			this.onError(error);
+		} finally {
+			this.applying = false;
+		}
+	};
+}
@@ -0,0 +1,136 @@
+/** The type of an event emitted by an `EvictingCache`. */
+export type CacheEventType = 'hit' | 'miss' | 'set' | 'delete' | 'evict' | 'clear' | 'invalidate' | 'pin' | 'unpin';
+
+/**
+ * An event emitted by an `EvictingCache`.
+ * The properties of each type of event are described by {@link CacheEventMap}.
+ */
+export class CacheEvent<T extends CacheEventType = CacheEventType> extends Event {
+	declare readonly type: T;
+
+	/**
+	 * Creates a new cache event.
+	 *
+	 * @param type The type of the event.
+	 */
+	constructor(type: T) {
+		super(type);
+	}
+}
+
+/** The events emitted by an `EvictingCache`, by event type. */
+export type CacheEventMap<K, V> = {
+	/** A key was found by `get()` or `fetch()`. */
+	hit: CacheEvent<'hit'> & { readonly key: K; readonly value: V };
+	/** A key was not found by `get()` or `fetch()`. */
+	miss: CacheEvent<'miss'> & { readonly key: K };
+	/** A value was put into the cache. `expiresAt` is when it expires, in milliseconds since the epoch, or `Infinity`, and `pinned` whether it is exempt from eviction. */
+	set: CacheEvent<'set'> & { readonly key: K; readonly value: V; readonly expiresAt: number; readonly tags: readonly string[]; readonly pinned: boolean };
+	/** A key was removed by calling `delete()` or `deleteAll()`. */
+	delete: CacheEvent<'delete'> & { readonly key: K; readonly value: V };
+	/** An entry was removed to make room for another entry, or because it had expired. */
+	evict: CacheEvent<'evict'> & { readonly key: K; readonly value: V; readonly reason: 'evict' | 'expire' };
+	/** Every entry was removed by calling `clear()`. */
+	clear: CacheEvent<'clear'>;
+	/** Tags were invalidated by calling `invalidateTag()` or `invalidateTags()`. Each entry that was removed is reported by a `delete` event first. */
+	invalidate: CacheEvent<'invalidate'> & { readonly tags: readonly string[] };
+	/** An entry that was in the cache was pinned by calling `pin()`. */
+	pin: CacheEvent<'pin'> & { readonly key: K };
+	/** A pinned entry was unpinned by calling `unpin()`. */
+	unpin: CacheEvent<'unpin'> & { readonly key: K };
+};
+
+/** A function or an object with a `handleEvent()` method that is called with the events of a cache, as with `EventTarget`. */
+export type CacheEventListener<E> = ((event: E) => void) | { handleEvent(event: E): void };
+
+/** Options used to add a {@link CacheEventListener}. */
+export type CacheEventListenerOptions = {
+	/** Removes the listener after it has been called once. */
+	once?: boolean;
+	/** Removes the listener when the signal is aborted. */
+	signal?: AbortSignal;
+};
+
+/**
+ * Creates an event with the given properties.
+ *
+ * @param type The type of the event.
+ * @param properties The properties of the event.
+ * @returns The event.
+ */
+export function createCacheEvent<T extends CacheEventType>(type: T, properties: object = {}): CacheEvent<T> {
+	return Object.assign(new CacheEvent(type), properties);
+}
+
+/** The listeners of a cache, by event type. Types without listeners are removed, so that the cache can skip creating their events. */
+export class CacheEventListeners {
+	private readonly listeners: Map<CacheEventType, Map<CacheEventListener<never>, boolean>> = new Map();
+
+	/**
+	 * Checks whether there are listeners for a type of event.
+	 *
+	 * @param type The type of event.
+	 * @returns True if there are listeners for the type, false otherwise.
+	 */
+	has(type: CacheEventType): boolean {
+		return this.listeners.has(type);
+	}
+
+	/**
+	 * Adds a listener. Adding a listener that has already been added for the same type has no effect.
+	 *
+	 * @param type The type of event.
+	 * @param listener The listener.
+	 * @param options Whether the listener is only called once and the signal that removes it.
+	 */
+	add(type: CacheEventType, listener: CacheEventListener<never>, { once = false, signal }: CacheEventListenerOptions = {}): void {
+		if (signal?.aborted) { return }
+
+		let listeners = this.listeners.get(type);
+		if (listeners === undefined) { this.listeners.set(type, listeners = new Map<CacheEventListener<never>, boolean>()) }
+		if (listeners.has(listener)) { return }
+
+		listeners.set(listener, once);
+		signal?.addEventListener('abort', () => this.remove(type, listener), { once: true });
+	}
+
+	/**
+	 * Removes a listener.
+	 *
+	 * @param type The type of event.
+	 * @param listener The listener.
+	 */
+	remove(type: CacheEventType, listener: CacheEventListener<never>): void {
+		const listeners = this.listeners.get(type);
+		if (listeners?.delete(listener) && listeners.size === 0) { this.listeners.delete(type) }
+	}
+
+	/**
+	 * Calls every listener of an event. Every listener is called even if one of them throws.
+	 *
+	 * @param event The event.
+	 * @param errors The array that errors thrown by the listeners are added to.
+	 */
+	dispatch(event: CacheEvent, errors: unknown[]): void {
+		const listeners = this.listeners.get(event.type);
+		if (listeners === undefined) { return }
+
+		// Copied so that listeners added by a listener are not called for the current event
+		for (const [listener, once] of Array.from(listeners)) {
+			// As with EventTarget, listeners removed by an earlier listener are not called
+			if (this.listeners.get(event.type)?.has(listener) !== true) { continue }
+			if (once) { this.remove(event.type, listener) }
+
+			try {
+				const callback = listener as CacheEventListener<CacheEvent>;
+				if (typeof callback === 'function') {
+					callback(event);
+				} else {
+					callback.handleEvent(event);
+				}
+			} catch (error) {
+				errors.push(error);
+			}
+		}
+	}
+}
@@ -0,0 +1,54 @@
+/** Options for iterating over the entries of a cache with `keys()`, `values()`, `entries()` or `page()`. */
+export type IterationOptions = {
+	/** Iterates from the entry evicted last to the entry evicted first, which is most recently used first for the LRU policy. Defaults to false. */
+	reverse?: boolean;
+	/**
+	 * Iterates over a copy of the entries taken when the iteration starts, so that reading, putting or removing entries while iterating does not change it.
+	 * The copy holds every entry, which costs memory in proportion to the size of the cache until the iteration ends.
+	 * Defaults to false, which iterates over the live entries: entries that are removed are skipped and entries that are read or put can be visited again.
+	 */
+	snapshot?: boolean;
+};
+
+/**
+ * The position of a listing by `page()`, which is passed back to it to get the next page.
+ * The cursor holds the iteration of the listing in memory, so it only works within the process, with the cache that returned it:
+ * it cannot be serialized, such as to hand it to a client between requests, and it keeps a snapshot listing alive until it is dropped.
+ */
+export type CacheCursor<K, V> = { readonly entries: Iterator<[K, V]> };
+
+/** Options for listing the entries of a cache a page at a time with `page()`. */
+export type PageOptions<K, V> = IterationOptions & {
+	/** The maximum number of entries of the page. */
+	limit: number;
+	/** The cursor returned with the previous page, which continues its listing and its `reverse` and `snapshot` options. Omit it for the first page. */
+	cursor?: CacheCursor<K, V>;
+};
+
+/** A page of the entries of a cache, returned by `page()`. */
+export type CachePage<K, V> = {
+	/** The entries of the page, in iteration order. */
+	entries: [K, V][];
+	/** The cursor to get the next page with, or undefined if the listing has ended. */
+	cursor?: CacheCursor<K, V>;
+};
+
+/**
+ * Reads a page of entries from an iteration.
+ *
+ * @param entries The iteration.
+ * @param limit The maximum number of entries of the page.
+ * @returns The page, with a cursor unless the iteration has ended.
+ */
+export function readPage<K, V>(entries: Iterator<[K, V]>, limit: number): CachePage<K, V> {
+	if (!(Number.isInteger(limit) && limit > 0)) { throw new RangeError('limit must be an integer greater than 0') }
+
+	const page: [K, V][] = [];
+	while (page.length < limit) {
+		const result = entries.next();
+		if (result.done) { return { entries: page } }
+		page.push(result.value);
+	}
+
+	return { entries: page, cursor: { entries } };
+}
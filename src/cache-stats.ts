@@ -0,0 +1,177 @@
+/** The hit and miss statistics of a cache. */
+export type CacheStats = {
+	hits: number;
+	misses: number;
+	/** The ratio of hits to lookups, or 0 if there have been no lookups. */
+	hitRate: number;
+};
+
+/** The statistics of the values loaded by a cache, such as by `getOrPut()`, `getOrPutAsync()` and `fetch()`. */
+export type LoadStats = {
+	/** The number of loads that produced a value. */
+	successes: number;
+	/** The number of loads that threw or rejected. */
+	failures: number;
+	/** The total time spent loading, in milliseconds. */
+	totalTime: number;
+	/** The average time of a load, in milliseconds, or 0 if nothing has been loaded. */
+	averageTime: number;
+};
+
+/** The statistics of an `EvictingCache`. */
+export type EvictingCacheStats = CacheStats & {
+	/** The ratio of hits to lookups over the most recent lookups, as many as the `statsWindow` option. */
+	recentHitRate: number;
+	/** The number of values put into the cache. */
+	sets: number;
+	/** The number of keys removed by `delete()` and `deleteAll()`. */
+	deletes: number;
+	/** The number of entries removed to make room for other entries (`evict`) and because they had expired (`expire`). */
+	evictions: { evict: number; expire: number };
+	loads: LoadStats;
+	/** The number of entries in the cache. */
+	size: number;
+	/** The number of entries in the cache that are pinned, which are included in `size`. */
+	pinned: number;
+	/** The maximum number of entries in the cache. */
+	capacity: number;
+};
+
+/**
+ * Creates hit and miss statistics from the number of hits and misses.
+ *
+ * @param hits The number of hits.
+ * @param misses The number of misses.
+ * @returns The statistics.
+ */
+export function toCacheStats(hits: number, misses: number): CacheStats {
+	const total = hits + misses;
+
+	return { hits, misses, hitRate: total === 0 ? 0 : hits / total };
+}
+
+/** Counts the operations of a cache, keeping the outcome of the most recent lookups in a ring buffer for the recent hit rate. */
+export class StatsRecorder {
+	private hits = 0;
+	private misses = 0;
+	private sets = 0;
+	private deletes = 0;
+	private evicted = 0;
+	private expired = 0;
+	private loadSuccesses = 0;
+	private loadFailures = 0;
+	private loadTime = 0;
+	/** 1 for each recent hit and 0 for each recent miss. */
+	private readonly window: Uint8Array;
+	private windowIndex = 0;
+	private windowLength = 0;
+	private windowHits = 0;
+
+	/**
+	 * Creates a new stats recorder.
+	 *
+	 * @param windowSize The number of recent lookups the recent hit rate is calculated from.
+	 */
+	constructor(windowSize: number) {
+		this.window = new Uint8Array(windowSize);
+	}
+
+	/** Records a lookup that found a value. */
+	hit(): void {
+		this.hits++;
+		this.recordLookup(1);
+	}
+
+	/** Records a lookup that did not find a value. */
+	miss(): void {
+		this.misses++;
+		this.recordLookup(0);
+	}
+
+	/** Records a value put into the cache. */
+	set(): void {
+		this.sets++;
+	}
+
+	/** Records a key removed by `delete()`. */
+	delete(): void {
+		this.deletes++;
+	}
+
+	/**
+	 * Records an entry removed by the cache.
+	 *
+	 * @param reason Whether the entry was removed to make room for another entry or because it had expired.
+	 */
+	evict(reason: 'evict' | 'expire'): void {
+		if (reason === 'evict') {
+			this.evicted++;
+		} else {
+			this.expired++;
+		}
+	}
+
+	/**
+	 * Records a completed load.
+	 *
+	 * @param time How long the load took, in milliseconds.
+	 * @param failed Whether the load threw or rejected.
+	 */
+	load(time: number, failed: boolean): void {
+		if (failed) {
+			this.loadFailures++;
+		} else {
+			this.loadSuccesses++;
+		}
+		this.loadTime += time;
+	}
+
+	/** Resets every count to zero. */
+	reset(): void {
+		this.hits = this.misses = this.sets = this.deletes = this.evicted = this.expired = 0;
+		this.loadSuccesses = this.loadFailures = this.loadTime = 0;
+		this.window.fill(0);
+		this.windowIndex = this.windowLength = this.windowHits = 0;
+	}
+
+	/**
+	 * Gets the recorded statistics.
+	 *
+	 * @param size The number of entries in the cache.
+	 * @param pinned The number of pinned entries in the cache.
+	 * @param capacity The maximum number of entries in the cache.
+	 * @returns The statistics.
+	 */
+	toStats(size: number, pinned: number, capacity: number): EvictingCacheStats {
+		const loads = this.loadSuccesses + this.loadFailures;
+
+		return {
+			...toCacheStats(this.hits, this.misses),
+			recentHitRate: this.windowLength === 0 ? 0 : this.windowHits / this.windowLength,
+			sets: this.sets,
+			deletes: this.deletes,
+			evictions: { evict: this.evicted, expire: this.expired },
+			loads: { successes: this.loadSuccesses, failures: this.loadFailures, totalTime: this.loadTime, averageTime: loads === 0 ? 0 : this.loadTime / loads },
+			size,
+			pinned,
+			capacity
+		};
+	}
+
+	/**
+	 * Adds the outcome of a lookup to the ring buffer, replacing the oldest outcome once it is full.
+	 *
+	 * @param outcome 1 for a hit, 0 for a miss.
+	 */
+	private recordLookup(outcome: number): void {
+		if (this.windowLength === this.window.length) {
+			this.windowHits -= this.window[this.windowIndex]!;
+		} else {
+			this.windowLength++;
+		}
+
+		this.window[this.windowIndex] = outcome;
+		this.windowHits += outcome;
+		this.windowIndex = (this.windowIndex + 1) % this.window.length;
+	}
+}
@@ -0,0 +1,165 @@
+/** Converts values to and from a JSON-safe representation. */
+export type Codec<T> = {
+	/**
+	 * Converts a value to a JSON-safe representation.
+	 *
+	 * @param value The value to encode.
+	 * @returns The JSON-safe representation of the value.
+	 */
+	encode(value: T): unknown;
+
+	/**
+	 * Converts a JSON-safe representation back to a value.
+	 *
+	 * @param encoded The JSON-safe representation of the value.
+	 * @returns The decoded value.
+	 */
+	decode(encoded: unknown): T;
+};
+
+/** A codec that can encode and decode values of any type, so it can be used as a {@link Codec} of any type. */
+export type GenericCodec = {
+	encode(value: unknown): unknown;
+	decode<T>(encoded: unknown): T;
+};
+
+/** A JSON-safe representation of a value that JSON cannot represent on its own. */
+type TaggedValue = { $type: string; value?: unknown };
+
+/** The parts of the Node.js `Buffer` class used by the codec. */
+type BufferConstructor = {
+	isBuffer(value: unknown): boolean;
+	from(base64: string, encoding: 'base64'): Uint8Array;
+};
+
+/** The Node.js `Buffer` class, which is not available in browsers. */
+const NodeBuffer: BufferConstructor | undefined = (globalThis as { Buffer?: BufferConstructor }).Buffer;
+
+/** The codec that leaves values as they are, for values that are already JSON-safe. */
+export const identityCodec: GenericCodec = {
+	encode: (value) => value,
+	decode: <T>(encoded: unknown) => encoded as T
+};
+
+/**
+ * A codec for values that JSON cannot represent on its own.
+ * Dates, Maps, Sets, BigInts, non-finite numbers, `undefined`, `Uint8Array`s and Node.js `Buffer`s are converted to tagged objects,
+ * including when they are nested inside arrays, plain objects, Maps and Sets.
+ */
+export const jsonCodec: GenericCodec = {
+	encode,
+	decode: <T>(encoded: unknown) => decode(encoded) as T
+};
+
+/**
+ * Converts a value to a JSON-safe representation.
+ *
+ * @param value The value to encode.
+ * @returns The JSON-safe representation of the value.
+ */
+function encode(value: unknown): unknown {
+	switch (typeof value) {
+		case 'string':
+		case 'boolean': return value;
+		case 'number': return Number.isFinite(value) ? value : { $type: 'Number', value: String(value) };
+		case 'bigint': return { $type: 'BigInt', value: value.toString() };
+		case 'undefined': return { $type: 'undefined' };
+		case 'object': break;
+		default: throw new TypeError(`Cannot encode a value of type ${typeof value}`);
+	}
+
+	if (value === null) { return null }
+	if (Array.isArray(value)) { return value.map(encode) }
+	if (value instanceof Date) { return { $type: 'Date', value: encode(value.getTime()) } }
+	if (value instanceof Map) { return { $type: 'Map', value: Array.from(value, ([key, item]) => [ encode(key), encode(item) ]) } }
+	if (value instanceof Set) { return { $type: 'Set', value: Array.from(value, encode) } }
+	if (value instanceof Uint8Array) { return { $type: isBuffer(value) ? 'Buffer' : 'Uint8Array', value: toBase64(value) } }
+
+	const encoded: Record<string, unknown> = {};
+	for (const [key, item] of Object.entries(value)) { encoded[key] = encode(item) }
+
+	// A plain object that looks like a tagged value is wrapped so that it is not decoded as one
+	return Object.hasOwn(value, '$type') ? { $type: 'Object', value: encoded } : encoded;
+}
+
+/**
+ * Converts a JSON-safe representation back to a value.
+ *
+ * @param encoded The JSON-safe representation of the value.
+ * @returns The decoded value.
+ */
+function decode(encoded: unknown): unknown {
+	if (typeof encoded !== 'object' || encoded === null) { return encoded }
+	if (Array.isArray(encoded)) { return encoded.map(decode) }
+	if (!isTaggedValue(encoded)) { return decodeObject(encoded) }
+
+	const { $type, value } = encoded;
+	switch ($type) {
+		case 'Number': return Number(value);
+		case 'BigInt': return BigInt(value as string);
+		case 'undefined': return undefined;
+		case 'Date': return new Date(decode(value) as number);
+		case 'Map': return new Map((value as [unknown, unknown][]).map(([key, item]) => [ decode(key), decode(item) ]));
+		case 'Set': return new Set((value as unknown[]).map(decode));
+		case 'Uint8Array': return fromBase64(value as string);
+		case 'Buffer': return NodeBuffer === undefined ? fromBase64(value as string) : NodeBuffer.from(value as string, 'base64');
+		case 'Object': return decodeObject(value as object);
+		default: throw new TypeError(`Cannot decode a value of type ${$type}`);
+	}
+}
+
+/**
+ * Decodes every property of a plain object.
+ *
+ * @param encoded The encoded object.
+ * @returns The decoded object.
+ */
+function decodeObject(encoded: object): Record<string, unknown> {
+	const decoded: Record<string, unknown> = {};
+	for (const [key, item] of Object.entries(encoded)) { decoded[key] = decode(item) }
+
+	return decoded;
+}
+
+/**
+ * Checks whether an encoded object is a tagged value.
+ *
+ * @param encoded The encoded object.
+ * @returns True if the object is a tagged value, false otherwise.
+ */
+function isTaggedValue(encoded: object): encoded is TaggedValue {
+	return typeof (encoded as Partial<TaggedValue>).$type === 'string';
+}
+
+/**
+ * Checks whether a byte array is a Node.js Buffer.
+ *
+ * @param bytes The byte array.
+ * @returns True if the byte array is a Buffer, false otherwise.
+ */
+function isBuffer(bytes: Uint8Array): boolean {
+	return NodeBuffer !== undefined && NodeBuffer.isBuffer(bytes);
+}
+
+/**
+ * Converts bytes to a base64 string.
+ *
+ * @param bytes The bytes.
+ * @returns The base64 string.
+ */
+function toBase64(bytes: Uint8Array): string {
+	let binary = '';
+	for (const byte of bytes) { binary += String.fromCharCode(byte) }
+
+	return btoa(binary);
+}
+
+/**
+ * Converts a base64 string to bytes.
+ *
+ * @param base64 The base64 string.
+ * @returns The bytes.
+ */
+function fromBase64(base64: string): Uint8Array {
+	return Uint8Array.from(atob(base64), (character) => character.charCodeAt(0));
+}
@@ -1,58 +1,349 @@
-type CacheStats = {
-	hits: number;
-	misses: number;
-	hitRate: number;
+import { BatchScheduler, loadBatches, validateMaxBatchSize, type BatchLoader, type BatchLoadOptions, type CacheLoader } from './batch-loading.js';
+import { readPage, type CachePage, type IterationOptions, type PageOptions } from './cache-iteration.js';
+import { CacheEventListeners, createCacheEvent, type CacheEvent, type CacheEventListener, type CacheEventListenerOptions, type CacheEventMap, type CacheEventType } from './cache-events.js';
+import { StatsRecorder, type EvictingCacheStats } from './cache-stats.js';
+import { identityCodec, type Codec } from './codecs.js';
+import { createEvictionPolicy, type EvictionPolicy, type EvictionPolicyName, type PolicyEntry } from './eviction-policies.js';
+import { LinkedList } from './linked-list.js';
+
+export type { BatchLoader, BatchLoadOptions, CacheLoader } from './batch-loading.js';
+export { CacheCoherence, type CacheCoherenceOptions, type CoherenceChannel } from './cache-coherence.js';
+export type { CacheCursor, CachePage, IterationOptions, PageOptions } from './cache-iteration.js';
+export { CacheEvent, type CacheEventListener, type CacheEventListenerOptions, type CacheEventMap, type CacheEventType } from './cache-events.js';
+export type { CacheStats, EvictingCacheStats, LoadStats } from './cache-stats.js';
+export { jsonCodec, type Codec, type GenericCodec } from './codecs.js';
+export { memoize, memoized, type Memoized, type MemoizeOptions } from './memoize.js';
+export { prometheusContentType, renderPrometheus, type PrometheusOptions, type StatsSource } from './prometheus.js';
+export { ShardedEvictingCache, type ShardedEvictingCacheOptions } from './sharded-cache.js';
+export { stableSerialize } from './stable-serialize.js';
+export { MemoryStore, TieredCache, type AsyncStore, type TieredCacheOptions, type TieredCacheStats, type WriteMode } from './tiered-cache.js';
+export type { EvictionPolicyName };
+
+/**
+ * The reason a value was removed from an {@link EvictingCache}.
+ *
+ * - `evict`: removed to make room for another entry, or by calling `evict()`.
+ * - `delete`: removed by calling `delete()` or `deleteAll()`.
+ * - `set`: replaced by a different value for the same key.
+ * - `clear`: removed by calling `clear()`.
+ * - `expire`: removed because its time-to-live had elapsed.
+ */
+export type DisposeReason = 'evict' | 'delete' | 'set' | 'clear' | 'expire';
+
+/** Resolved by the `fetchMethod` option when a key does not exist, so that the cache can remember that it is absent. */
+export const notFound: unique symbol = Symbol('notFound');
+
+/**
+ * The result of looking up a key with `tryGet()` or `tryFetch()`, which tells a cached `null` or `undefined` apart from a missing key.
+ * `absent` is true when the key is known not to exist, because the `fetchMethod` option recently resolved `notFound` for it.
+ */
+export type CacheLookup<V> = { found: true; value: V } | { found: false; value: undefined; absent: boolean };
+
+/**
+ * The writes of a transaction, passed to the callback of `transaction()`.
+ * Writes are staged until the callback returns, and reads see the staged writes without updating the LRU order.
+ * The transaction can only be used while its callback is running.
+ */
+export type CacheTransaction<K, V> = {
+	/** Returns the value of a key as the transaction sees it, or null if the key is missing or deleted. */
+	get(key: K): V | null;
+	/** Returns true if the key is in the cache as the transaction sees it, false otherwise. */
+	has(key: K): boolean;
+	/** Stages a put, which is validated immediately but only applied on commit. */
+	put(key: K, value: V, options?: PutOptions): void;
+	/** Stages the removal of a key, returning true if the key was in the cache as the transaction saw it. */
+	delete(key: K): boolean;
+};
+
+/** Options used to configure an {@link EvictingCache}. */
+export type EvictingCacheOptions<K, V> = {
+	/** The default time-to-live of every entry, in milliseconds. `0` (the default) means entries never expire. */
+	ttl?: number;
+	/** The policy that decides which entry is evicted when the cache is full. Defaults to `lru`. */
+	policy?: EvictionPolicyName;
+	/** How often expired entries are purged in the background, in milliseconds. `0` (the default) disables the sweep. */
+	purgeInterval?: number;
+	/**
+	 * Called with the error when the `dispose` callback or an event listener throws in the background, which has no caller to rethrow it to:
+	 * during the sweep of `purgeInterval`, or when a refresh in the background replaces or removes an entry. Defaults to ignoring it.
+	 */
+	onError?: (error: unknown) => void;
+	/** The maximum total size of all entries, as measured by `sizeCalculation`. `0` (the default) means there is no limit. */
+	maxSize?: number;
+	/** Calculates the size of an entry, such as its length in bytes or its cost. Required when `maxSize` is set. */
+	sizeCalculation?: (value: V, key: K) => number;
+	/**
+	 * Called with every value that is removed from the cache, such as to close a file handle or release a connection.
+	 * It is called once the operation that removed the value has completed, so the cache is always in a consistent state.
+	 * If it throws, the remaining values of the operation are still disposed and the error is then rethrown to the caller,
+	 * or an `AggregateError` is thrown if several callbacks threw. Errors thrown by removals in the background are passed to `onError` instead.
+	 */
+	dispose?: (value: V, key: K, reason: DisposeReason) => void;
+	/**
+	 * Loads the value of a key for `fetch()`. It receives the stale value when an existing entry is being refreshed.
+	 * It can resolve `notFound` for a key that does not exist, which is remembered when `negativeCapacity` is set.
+	 */
+	fetchMethod?: (key: K, staleValue: V | undefined) => Promise<V | typeof notFound>;
+	/** How long an entry is fresh, in milliseconds. `fetch()` refreshes stale entries in the background. `0` (the default) means entries never become stale. */
+	staleAfter?: number;
+	/** How long a stale value is kept once refreshing it has failed, in milliseconds. `0` (the default) removes the value as soon as a refresh fails. */
+	staleIfError?: number;
+	/**
+	 * How long after it was put an entry is reloaded in the background when it is read, in milliseconds, so that frequently read entries never expire.
+	 * The entry keeps being returned while it is reloaded, and keeps its value if the reload fails. It is reloaded with the producer of `getOrPut()` and `getOrPutAsync()`,
+	 * or with the `fetchMethod` option for other reads. Set it below `ttl` for entries to be reloaded before they expire. `0` (the default) disables refreshing.
+	 */
+	refreshAfter?: number;
+	/** The number of most recent lookups that the `recentHitRate` statistic is calculated from. Defaults to 1000. */
+	statsWindow?: number;
+	/**
+	 * Holds the values outside the hot segment through a `WeakRef`, so that they can be garbage collected.
+	 * Entries whose values have been collected are treated as absent and removed without being disposed.
+	 * Values that cannot be held weakly, such as strings and numbers, are always held strongly.
+	 */
+	weakValues?: boolean;
+	/** The number of most recently put or read values that are held strongly when `weakValues` is set. Defaults to 0. */
+	hotSize?: number;
+	/**
+	 * Converts a key to the value that identifies its entry, so that keys that are not identical can share an entry.
+	 * Use `stableSerialize` for structural keys, such as `['user', 42]` or `{ id: 42, locale: 'en' }`.
+	 * Defaults to the key itself, so keys are compared as by a `Map`.
+	 */
+	keyHasher?: (key: K) => unknown;
+	/**
+	 * The maximum number of keys that are remembered as absent when the `fetchMethod` option resolves `notFound` for them,
+	 * so that fetching them again does not call it. They are forgotten once the key is put or deleted. `0` (the default) disables negative caching.
+	 */
+	negativeCapacity?: number;
+	/** How long a key is remembered as absent, in milliseconds. `0` (the default) means until it is evicted, put or deleted. */
+	negativeTtl?: number;
+	/**
+	 * What a put does when the pinned entries leave no room for it.
+	 * `exceed` (the default) exceeds the capacity or `maxSize` until entries are unpinned or removed, `reject` throws a `RangeError` and leaves the cache unchanged.
+	 */
+	pinnedOverflow?: 'exceed' | 'reject';
+};
+
+/** Options for a single write to an {@link EvictingCache}. */
+export type PutOptions = {
+	/** The time-to-live of the entry, in milliseconds. Overrides the cache's default `ttl`, `0` means the entry never expires. */
+	ttl?: number;
+	/** Tags that the entry can be removed by with `invalidateTag()`, such as the records it was derived from. Replaces the tags of the previous value. */
+	tags?: Iterable<string>;
+	/** Exempts the entry from eviction until it is unpinned, as with `pin()`. Defaults to keeping the pin of the previous value. */
+	pinned?: boolean;
 };
 
-/** JavaScript implementation of a Least Recently Used(LRU) Cache using a Map. */
+/** A JSON-safe entry of a {@link CacheSnapshot}. */
+export type SnapshotEntry = {
+	key: unknown;
+	value: unknown;
+	/** When the entry expires, in milliseconds since the epoch. Omitted if the entry never expires. */
+	expiresAt?: number;
+	/** When the entry becomes stale, in milliseconds since the epoch. Omitted if the entry never becomes stale. */
+	staleAt?: number;
+	/** The tags of the entry. Omitted if the entry has no tags. */
+	tags?: string[];
+	/** True if the entry is pinned. Omitted if the entry is not pinned. */
+	pinned?: true;
+};
+
+/** A versioned, JSON-safe snapshot of an {@link EvictingCache}, created by `dump()`. */
+export type CacheSnapshot = {
+	version: 1;
+	capacity: number;
+	policy: EvictionPolicyName;
+	/** The entries, in eviction order, followed by the pinned entries. */
+	entries: SnapshotEntry[];
+};
+
+/** Options used to convert the keys and values of an {@link EvictingCache} to and from a {@link CacheSnapshot}. */
+export type SnapshotOptions<K, V> = {
+	/** Converts keys to and from a JSON-safe representation. Defaults to leaving keys as they are. */
+	keyCodec?: Codec<K>;
+	/** Converts values to and from a JSON-safe representation. Defaults to leaving values as they are. */
+	valueCodec?: Codec<V>;
+};
+
+/** The version of the snapshots created by `dump()`. */
+const snapshotVersion = 1;
+
+type CacheEntry<K, V> = PolicyEntry & {
+	readonly key: K;
+	/** The key of the entry in the map, which is the result of the `keyHasher` option, or the key itself. */
+	readonly id: unknown;
+	value: V;
+	/** The time-to-live the entry was put with, which a refresh puts the reloaded value with again. */
+	ttl: number;
+	expiresAt: number;
+	staleAt: number;
+	/** When the entry is reloaded in the background once it is read, in milliseconds since the epoch, or Infinity if it is never refreshed. */
+	refreshAt: number;
+	size: number;
+	/** Undefined rather than empty when the entry has no tags, as most entries have none. */
+	tags?: Set<string>;
+	/** Holds the value instead of `value` while the entry is outside the hot segment of a cache with weak values. */
+	ref?: WeakRef<object>;
+};
+
+/** A put whose time-to-live and size have been validated, which is applied by `insert()`. */
+type StagedPut<V> = {
+	value: V;
+	ttl: number;
+	tags: Iterable<string> | undefined;
+	size: number;
+	/** Undefined to keep the pin of the previous value. */
+	pinned: boolean | undefined;
+};
+
+/** A write staged by a transaction: a put, or the removal of the key if `put` is undefined. */
+type StagedWrite<K, V> = { key: K; put?: StagedPut<V> };
+
+/** Returned by {@link valueOf} for a value that was held weakly and has been garbage collected. */
+const collected: unique symbol = Symbol('collected');
+/** Returned by `read()` for a key that is not in the cache, as `null` and `undefined` can be cached. */
+const missing: unique symbol = Symbol('missing');
+
+/**
+ * JavaScript implementation of a Least Recently Used(LRU) Cache using a Map.
+ * The eviction policy can be replaced with FIFO, LFU, segmented LRU or W-TinyLFU.
+ */
 export class EvictingCache<K, V> {
-	private readonly _capacity: number;
-	private readonly cache: Map<K, V>;
-	private hits = 0;
-	private misses = 0;
+	private _capacity: number;
+	private readonly cache: Map<unknown, CacheEntry<K, V>>;
+	private readonly _policy: EvictionPolicyName;
+	private readonly evictionPolicy: EvictionPolicy<CacheEntry<K, V>>;
+	private readonly ttl: number;
+	private readonly _maxSize: number;
+	private readonly sizeCalculation?: (value: V, key: K) => number;
+	private readonly dispose?: (value: V, key: K, reason: DisposeReason) => void;
+	private readonly fetchMethod?: (key: K, staleValue: V | undefined) => Promise<V | typeof notFound>;
+	private readonly staleAfter: number;
+	private readonly staleIfError: number;
+	private readonly refreshAfter: number;
+	private readonly onError: (error: unknown) => void;
+	private readonly inflight: Map<unknown, Promise<V>> = new Map();
+	private readonly tagIndex: Map<string, Set<CacheEntry<K, V>>> = new Map();
+	private readonly listeners: CacheEventListeners = new CacheEventListeners();
+	private disposals: [V, K, DisposeReason][] = [];
+	private events: CacheEvent[] = [];
+	private _calculatedSize = 0;
+	private hasExpiringEntries = false;
+	private readonly stats: StatsRecorder;
+	private readonly hotSize: number;
+	/** The entries whose values are held strongly, from least to most recently used. Undefined unless the cache holds weak values. */
+	private readonly hot?: Set<CacheEntry<K, V>>;
+	private readonly registry?: FinalizationRegistry<unknown>;
+	private readonly keyHasher?: (key: K) => unknown;
+	/** The keys that are known not to exist. Undefined unless negative caching is enabled. */
+	private readonly absent?: EvictingCache<K, true>;
+	/** The entries that are exempt from eviction, which are kept out of the eviction policy, from least to most recently used. */
+	private readonly pinnedEntries: LinkedList<CacheEntry<K, V>> = new LinkedList();
+	private pinnedSize = 0;
+	private readonly pinnedOverflow: 'exceed' | 'reject';
 
 	/**
 	 * Creates a new Evicting Cache with the given capacity.
 	 *
 	 * @param capacity The maximum number of key-value pairs the cache can hold.
+	 * @param options Additional options for the cache.
 	 */
-	constructor(capacity: number = 100) {
-		if (capacity < 1) { throw new RangeError('capacity must be greater than 0') }
-		if (!Number.isInteger(capacity)) { throw new RangeError('capacity must be an integer') }
+	constructor(capacity: number = 100, { policy = 'lru', ttl = 0, purgeInterval = 0, onError = () => {}, maxSize = 0, sizeCalculation, dispose, fetchMethod, staleAfter = 0, staleIfError = 0, refreshAfter = 0, statsWindow = 1000, weakValues = false, hotSize = 0, keyHasher, negativeCapacity = 0, negativeTtl = 0, pinnedOverflow = 'exceed' }: EvictingCacheOptions<K, V> = {}) {
+		validateCapacity(capacity);
+		validateTtl(ttl);
+		if (!(purgeInterval >= 0 && purgeInterval < Infinity)) { throw new RangeError('purgeInterval must be a finite number greater than or equal to 0') }
+		if (!(maxSize >= 0 && maxSize < Infinity)) { throw new RangeError('maxSize must be a finite number greater than or equal to 0') }
+		if (maxSize > 0 && sizeCalculation === undefined) { throw new TypeError('sizeCalculation is required when maxSize is set') }
+		if (!(staleAfter >= 0 && staleAfter < Infinity)) { throw new RangeError('staleAfter must be a finite number greater than or equal to 0') }
+		if (!(staleIfError >= 0 && staleIfError < Infinity)) { throw new RangeError('staleIfError must be a finite number greater than or equal to 0') }
+		if (!(refreshAfter >= 0 && refreshAfter < Infinity)) { throw new RangeError('refreshAfter must be a finite number greater than or equal to 0') }
+		if (!(Number.isInteger(statsWindow) && statsWindow > 0)) { throw new RangeError('statsWindow must be an integer greater than 0') }
+		if (!(Number.isInteger(hotSize) && hotSize >= 0)) { throw new RangeError('hotSize must be an integer greater than or equal to 0') }
+		if (hotSize > 0 && !weakValues) { throw new TypeError('weakValues is required when hotSize is set') }
+		if (!(Number.isInteger(negativeCapacity) && negativeCapacity >= 0)) { throw new RangeError('negativeCapacity must be an integer greater than or equal to 0') }
+		if (pinnedOverflow !== 'exceed' && pinnedOverflow !== 'reject') { throw new RangeError(`Unknown pinned overflow: ${String(pinnedOverflow)}`) }
 
 		this._capacity = capacity;
 		this.cache = new Map();
+		this._policy = policy;
+		this.evictionPolicy = createEvictionPolicy(policy, capacity);
+		this.ttl = ttl;
+		this._maxSize = maxSize;
+		this.sizeCalculation = sizeCalculation;
+		this.dispose = dispose;
+		this.fetchMethod = fetchMethod;
+		this.staleAfter = staleAfter;
+		this.staleIfError = staleIfError;
+		this.refreshAfter = refreshAfter;
+		this.onError = onError;
+		this.stats = new StatsRecorder(statsWindow);
+		this.hotSize = hotSize;
+		this.keyHasher = keyHasher;
+		this.pinnedOverflow = pinnedOverflow;
+		if (weakValues) {
+			this.hot = new Set();
+			this.registry = new FinalizationRegistry((id) => this.collect(id));
+		}
+		if (negativeCapacity > 0) { this.absent = new EvictingCache(negativeCapacity, { ttl: negativeTtl, keyHasher }) }
+
+		if (purgeInterval > 0) { schedulePurge(this, purgeInterval, onError) }
+	}
+
+	/**
+	 * Creates a new Evicting Cache from a snapshot created by `dump()`.
+	 * The cache has the capacity and eviction policy of the snapshot unless they are overridden by the options.
+	 *
+	 * @param snapshot The snapshot to restore.
+	 * @param options Additional options for the cache, and the codecs used to convert keys and values that are not JSON-safe.
+	 * @returns The new cache.
+	 */
+	static from<K, V>(snapshot: CacheSnapshot, options: EvictingCacheOptions<K, V> & SnapshotOptions<K, V> & { capacity?: number } = {}): EvictingCache<K, V> {
+		const cache = new EvictingCache<K, V>(options.capacity ?? snapshot.capacity, { policy: snapshot.policy, ...options });
+		cache.restore(snapshot, options);
+
+		return cache;
 	}
 
 	/**
 	 * Returns the value associated with the given key from the cache and updates the LRU order.
 	 *
+	 * A cached `null` cannot be told apart from a missing key, use `tryGet()` for values that can be `null`.
+	 *
 	 * @param key The key to get the value for.
 	 * @returns The associated value if the key is in the cache, or null otherwise.
 	 */
 	get(key: K): V | null {
-		const value = this.cache.get(key);
-		if (value === undefined) {
-			this.misses++;
-			return null;
-		}
+		const value = this.read(key, this.idOf(key));
+		this.flush();
 
-		this.hits++;
-		this.cache.delete(key);
-		// Move the accessed item to the end (most recently used)
-		this.cache.set(key, value);
+		return value === missing ? null : value;
+	}
 
-		return value;
+	/**
+	 * Looks up the given key and updates the LRU order, telling a cached `null` or `undefined` apart from a missing key.
+	 *
+	 * @param key The key to look up.
+	 * @returns Whether the key was found and its value, and whether a missing key is known to be absent.
+	 */
+	tryGet(key: K): CacheLookup<V> {
+		const value = this.read(key, this.idOf(key));
+		const lookup: CacheLookup<V> = value === missing ? { found: false, value: undefined, absent: this.absent?.has(key) ?? false } : { found: true, value };
+		this.flush();
+
+		return lookup;
 	}
 
 	/**
-	 * Returns true if the given key is in the cache, false otherwise.
+	 * Returns true if the given key is in the cache and has not expired, false otherwise.
 	 *
 	 * @param key The key to check.
 	 * @returns True if the key is in the cache, false otherwise.
 	 */
 	has(key: K): boolean {
-		return this.cache.has(key);
+		const entry = this.getEntry(this.idOf(key));
+		this.flush();
+
+		return entry !== undefined;
 	}
 
 	/**
@@ -61,10 +352,12 @@ export class EvictingCache<K, V> {
 	 *
 	 * @param key The key to add.
 	 * @param value The value to add.
+	 * @param options Options for the entry, such as its time-to-live.
 	 * @returns void
 	 */
-	put(key: K, value: V): void {
-		this.putAndEvict(key, value);
+	put(key: K, value: V, options?: PutOptions): void {
+		this.putAndEvict(key, value, options);
+		this.flush();
 	}
 
 	/**
@@ -74,7 +367,56 @@ export class EvictingCache<K, V> {
 	 * @returns True if the key was in the cache and was removed, false otherwise.
 	 */
 	delete(key: K): boolean {
-		return this.cache.delete(key);
+		const id = this.idOf(key);
+		this.inflight.delete(id);
+		this.absent?.delete(key);
+		const removed = this.remove(id, 'delete');
+		this.flush();
+
+		return removed;
+	}
+
+	/**
+	 * Pins an entry, exempting it from eviction by `evict()`, `shrink()`, `resize()` and puts until it is unpinned.
+	 * Pinned entries are still removed when they expire, are deleted or invalidated, or the cache is cleared, and their values are always held strongly.
+	 *
+	 * @param key The key of the entry to pin.
+	 * @returns True if the key is in the cache and is now pinned, false otherwise.
+	 */
+	pin(key: K): boolean {
+		const entry = this.getEntry(this.idOf(key));
+		if (entry !== undefined && !this.pinnedEntries.has(entry)) {
+			this.evictionPolicy.remove(entry);
+			this.hot?.delete(entry);
+			this.pinnedEntries.add(entry);
+			this.pinnedSize += entry.size;
+			this.heat(entry);
+			if (this.listeners.has('pin')) { this.events.push(createCacheEvent('pin', { key: entry.key })) }
+		}
+		this.flush();
+
+		return entry !== undefined;
+	}
+
+	/**
+	 * Unpins an entry, which the eviction policy then treats as if it had just been put.
+	 * If the cache exceeded its capacity or `maxSize` because of its pinned entries, entries are evicted until it fits again.
+	 *
+	 * @param key The key of the entry to unpin.
+	 * @returns True if the entry was pinned, false otherwise.
+	 */
+	unpin(key: K): boolean {
+		const entry = this.cache.get(this.idOf(key));
+		if (entry === undefined || !this.pinnedEntries.delete(entry)) { return false }
+
+		this.pinnedSize -= entry.size;
+		this.evictionPolicy.insert(entry);
+		this.heat(entry);
+		if (this.listeners.has('unpin')) { this.events.push(createCacheEvent('unpin', { key: entry.key })) }
+		this.makeRoom(0, 0);
+		this.flush();
+
+		return true;
 	}
 
 	/**
@@ -84,7 +426,11 @@ export class EvictingCache<K, V> {
 	 * @returns The associated value if the key is in the cache, or null otherwise.
 	 */
 	peek(key: K): V | null {
-		return this.cache.get(key) ?? null;
+		const entry = this.getEntry(this.idOf(key));
+		this.flush();
+
+		// getEntry() skips values that have been collected
+		return entry === undefined ? null : valueOf(entry) as V;
 	}
 
 	/**
@@ -93,52 +439,216 @@ export class EvictingCache<K, V> {
 	 *
 	 * @param key The key.
 	 * @param producer The value to put if the key does not exist in the cache.
+	 * @param options Options for the entry if it is put, such as its time-to-live.
 	 * @returns The value corresponding to the key.
 	 */
-	getOrPut(key: K, producer: () => V): V {
-		const existing = this.get(key);
-		if (existing !== null) { return existing }
+	getOrPut(key: K, producer: () => V, options?: PutOptions): V {
+		const existing = this.read(key, this.idOf(key), () => Promise.resolve(producer()), options);
+		this.flush();
+		if (existing !== missing) { return existing }
 
 		// If producer throws, cache state remains unchanged
-		const value = producer();
-		return this.putAndEvict(key, value);
+		const start = performance.now();
+		let value: V;
+		try {
+			value = producer();
+		} catch (error) {
+			this.stats.load(performance.now() - start, true);
+			throw error;
+		}
+		this.stats.load(performance.now() - start, false);
+		this.putAndEvict(key, value, options);
+		this.flush();
+
+		return value;
+	}
+
+	/**
+	 * Returns a promise for the value of the key if it exists in the cache.
+	 * If not, the asynchronous producer is called and the value it resolves to is put into the cache.
+	 * Concurrent calls for the same key share a single call to the producer.
+	 * If the producer rejects, the cache state is not modified and every caller receives the rejection.
+	 * If the key is put, deleted or the cache is cleared while the producer is pending, the resolved value is not put into the cache.
+	 *
+	 * @param key The key.
+	 * @param producer Produces the value to put if the key does not exist in the cache.
+	 * @param options Options for the entry if it is put, such as its time-to-live.
+	 * @returns A promise for the value corresponding to the key.
+	 */
+	getOrPutAsync(key: K, producer: () => Promise<V>, options?: PutOptions): Promise<V> {
+		const existing = this.read(key, this.idOf(key), producer, options);
+		this.flush();
+		if (existing !== missing) { return Promise.resolve(existing) }
+
+		return this.load(key, producer, options);
 	}
 
 	/**
-	 * Removes the least recently used key-value pair from the cache.
+	 * Returns a promise for the value of the key, loading it with the `fetchMethod` option if it is not in the cache.
+	 * If the value is stale, it is returned immediately and refreshed in the background.
+	 * If refreshing fails, the stale value is kept for the time given by the `staleIfError` option.
+	 * Stale values count as hits and loaded values count as misses.
+	 * The promise rejects if the key does not exist, use `tryFetch()` for keys that may not exist.
+	 *
+	 * @param key The key.
+	 * @returns A promise for the value corresponding to the key.
+	 */
+	fetch(key: K): Promise<V> {
+		const fetchMethod = this.fetchMethod;
+		if (fetchMethod === undefined) { return Promise.reject(new TypeError('fetchMethod is required to fetch')) }
+
+		const id = this.idOf(key);
+		const value = this.read(key, id);
+		// The entry is taken before the listeners run, as they may remove it
+		const entry = this.cache.get(id);
+		this.flush();
+		if (value === missing) {
+			return this.absent?.has(key) ? Promise.reject(keyNotFound()) : this.load(key, () => fetchMethod(key, undefined));
+		}
+
+		if (entry !== undefined && entry.staleAt <= Date.now() && !this.inflight.has(id)) {
+			// A key that no longer exists has been removed by the time the refresh rejects
+			this.load(key, () => fetchMethod(key, value), undefined, true).catch(() => this.retainStale(entry));
+		}
+
+		return Promise.resolve(value);
+	}
+
+	/**
+	 * Returns a promise for the lookup of the key, loading it with the `fetchMethod` option if it is not in the cache, as with `fetch()`.
+	 * Keys that the `fetchMethod` option resolves `notFound` for are not found, and are remembered as absent when `negativeCapacity` is set,
+	 * so that fetching them again does not call it until they are forgotten.
+	 *
+	 * @param key The key.
+	 * @returns A promise for whether the key was found and its value.
+	 */
+	tryFetch(key: K): Promise<CacheLookup<V>> {
+		return this.fetch(key).then((value): CacheLookup<V> => ({ found: true, value }), (error: unknown) => {
+			if (isKeyNotFound(error)) { return { found: false, value: undefined, absent: true } }
+
+			throw error;
+		});
+	}
+
+	/**
+	 * Removes the least recently used key-value pair from the cache, or the pair chosen by the eviction policy.
+	 * Pinned entries are never evicted.
 	 * @returns True if an item was removed, false otherwise.
 	 */
 	evict(): boolean {
-		const firstEntry = this.cache.keys().next();
-		if (firstEntry.done) { return false }
+		const evicted = this.evictEntry();
+		this.flush();
+
+		return evicted;
+	}
+
+	/**
+	 * Changes the capacity of the cache, keeping its entries.
+	 * Shrinking the cache evicts entries chosen by the eviction policy until it fits the new capacity, growing it evicts nothing.
+	 * Pinned entries are not evicted, so the cache exceeds the new capacity if they do not fit.
+	 *
+	 * @param capacity The new maximum number of key-value pairs the cache can hold.
+	 * @returns The number of entries that were evicted.
+	 */
+	resize(capacity: number): number {
+		validateCapacity(capacity);
+
+		this._capacity = capacity;
+		this.evictionPolicy.resize(capacity);
+		let evicted = 0;
+		while (this.cache.size > capacity && this.evictEntry()) { evicted++ }
+		this.flush();
+
+		return evicted;
+	}
+
+	/**
+	 * Evicts a fraction of the entries, chosen by the eviction policy, such as to free memory when the heap is running low.
+	 * The capacity is unchanged, so the cache fills up again as values are put. Pinned entries are counted but not evicted.
+	 *
+	 * @param fraction The fraction of the entries to evict, greater than 0 and less than or equal to 1.
+	 * @returns The number of entries that were evicted.
+	 */
+	shrink(fraction: number): number {
+		if (!(fraction > 0 && fraction <= 1)) { throw new RangeError('fraction must be greater than 0 and less than or equal to 1') }
+
+		const count = Math.ceil(this.cache.size * fraction);
+		let evicted = 0;
+		while (evicted < count && this.evictEntry()) { evicted++ }
+		this.flush();
+
+		return evicted;
+	}
+
+	/**
+	 * Removes every expired key-value pair from the cache.
+	 * Expired pairs are never returned by the cache, but they are otherwise only removed when they are accessed.
+	 *
+	 * @returns The number of key-value pairs that were removed.
+	 */
+	purgeStale(): number {
+		if (!this.hasExpiringEntries) { return 0 }
 
-		return this.cache.delete(firstEntry.value);
+		const now = Date.now();
+		let count = 0;
+		for (const [id, entry] of this.cache) {
+			if (entry.expiresAt <= now) {
+				this.remove(id, 'expire');
+				count++;
+			}
+		}
+		this.flush();
+
+		return count;
 	}
 
 	/**
 	 * Clears the cache and the LRU list.
 	 */
 	clear(): void {
+		if (this.dispose !== undefined) {
+			for (const entry of this.ordered(false)) {
+				const value = valueOf(entry);
+				if (value !== collected) { this.disposals.push([value, entry.key, 'clear']) }
+			}
+		}
+
 		this.cache.clear();
+		this.evictionPolicy.clear();
+		this.pinnedEntries.clear();
+		this.pinnedSize = 0;
+		this.inflight.clear();
+		this.absent?.clear();
+		this.tagIndex.clear();
+		this.hot?.clear();
+		this._calculatedSize = 0;
+		this.hasExpiringEntries = false;
+		if (this.listeners.has('clear')) { this.events.push(createCacheEvent('clear')) }
+		this.flush();
 	}
 
 	/**
-	 * Executes a provided function once per each key/value pair in the cache, in insertion order.
+	 * Executes a provided function once per each key/value pair in the cache, in eviction order.
 	 * @param callbackfn Function to execute for each element.
 	 * @param thisArg Value to use as `this` when executing callback.
 	 */
 	forEach(callbackfn: (value: V, key: K, cache: EvictingCache<K, V>) => void, thisArg?: unknown): void {
 		const boundCallback = thisArg !== undefined ? callbackfn.bind(thisArg) : callbackfn;
-		this.cache.forEach((value, key) => boundCallback(value, key, this));
+		for (const [key, value] of this.entries()) { boundCallback(value, key, this) }
 	}
 
 	/**
 	 * Adds multiple key-value pairs to the cache.
-	 * Each pair is added individually, following the same LRU eviction rules as put().
+	 * Each pair is added individually, following the same LRU eviction rules as put(). Use `transaction()` to add them atomically.
 	 * @param entries The entries to add.
+	 * @param options Options applied to every entry, such as their time-to-live.
 	 */
-	putAll(entries: Iterable<[K, V]>): void {
-		for (const [key, value] of entries) { this.put(key, value) }
+	putAll(entries: Iterable<[K, V]>, options?: PutOptions): void {
+		try {
+			for (const [key, value] of entries) { this.putAndEvict(key, value, options) }
+		} finally {
+			this.flush();
+		}
 	}
 
 	/**
@@ -146,18 +656,100 @@ export class EvictingCache<K, V> {
 	 * Each get updates the LRU order for that key.
 	 *
 	 * @param keys The keys to get values for.
-	 * @returns A map of keys to their values (excludes missing keys).
+	 * @returns A map of keys to their values, which excludes missing keys but includes cached `null` and `undefined` values.
 	 */
 	getAll(keys: Iterable<K>): Map<K, V> {
 		const result = new Map<K, V>();
-		for (const key of keys) {
-			const value = this.get(key);
-			if (value !== null) { result.set(key, value) }
+		try {
+			for (const key of keys) {
+				const value = this.read(key, this.idOf(key));
+				if (value !== missing) { result.set(key, value) }
+			}
+		} finally {
+			this.flush();
 		}
 
 		return result;
 	}
 
+	/**
+	 * Gets multiple values, loading the keys that are not in the cache with the batch loader, in as few calls as `maxBatchSize` allows.
+	 * Loaded values are put into the cache following the usual eviction rules, and keys that are already being loaded share that load.
+	 * Keys that do not exist are left out, and are remembered as absent when `negativeCapacity` is set, so that they are not loaded again until they are forgotten.
+	 *
+	 * @param keys The keys to get values for.
+	 * @param batchLoader Loads the values of the keys that are not in the cache.
+	 * @param options The maximum number of keys per call of the batch loader, and options for the entries that are put, such as their time-to-live.
+	 * @returns A promise for a map of keys to their values, or to the error that loading them failed with, in the order of the keys.
+	 */
+	getAllOrLoad(keys: Iterable<K>, batchLoader: BatchLoader<K, V>, { maxBatchSize = Infinity, ...options }: BatchLoadOptions = {}): Promise<Map<K, V | Error>> {
+		validateMaxBatchSize(maxBatchSize);
+
+		// The lookup of a key that has to be loaded is undefined until its batch is created
+		const lookups: [K, Promise<V> | undefined][] = [];
+		const misses: K[] = [];
+		const ids = new Set<unknown>();
+		try {
+			for (const key of keys) {
+				const id = this.idOf(key);
+				if (ids.has(id)) { continue }
+				ids.add(id);
+
+				const value = this.read(key, id);
+				if (value !== missing) {
+					lookups.push([key, Promise.resolve(value)]);
+				} else if (!this.absent?.has(key)) {
+					const loading = this.inflight.get(id);
+					lookups.push([key, loading]);
+					if (loading === undefined) { misses.push(key) }
+				}
+			}
+		} finally {
+			this.flush();
+		}
+
+		const results = loadBatches(misses, batchLoader, maxBatchSize);
+		let next = 0;
+
+		return Promise.all(lookups.map(([key, lookup]) => {
+			if (lookup === undefined) {
+				const result = results[next++]!;
+				lookup = this.load(key, () => result, options);
+			}
+
+			return lookup.then((value): [K, V | Error] | undefined => [key, value], (error: unknown): [K, V | Error] | undefined => {
+				if (isKeyNotFound(error)) { return undefined }
+
+				return [key, error instanceof Error ? error : new Error(String(error), { cause: error })];
+			});
+		})).then((entries) => new Map(entries.filter((entry) => entry !== undefined)));
+	}
+
+	/**
+	 * Creates a loader that merges the loads of keys that are not in the cache, requested in the same turn of the event loop, into calls of the batch loader,
+	 * so that independent callers, such as the resolvers of a GraphQL query, can each load a single key.
+	 * Cached values are returned without a load, loaded values are put into the cache following the usual eviction rules,
+	 * and keys that do not exist are remembered as absent when `negativeCapacity` is set.
+	 *
+	 * @param batchLoader Loads the values of the keys that are not in the cache.
+	 * @param options The maximum number of keys per call of the batch loader, and options for the entries that are put, such as their time-to-live.
+	 * @returns The loader.
+	 */
+	loader(batchLoader: BatchLoader<K, V>, { maxBatchSize = Infinity, ...options }: BatchLoadOptions = {}): CacheLoader<K, V> {
+		validateMaxBatchSize(maxBatchSize);
+		const scheduler = new BatchScheduler(batchLoader, maxBatchSize);
+
+		return {
+			load: (key) => {
+				const value = this.read(key, this.idOf(key));
+				this.flush();
+				if (value !== missing) { return Promise.resolve(value) }
+
+				return this.absent?.has(key) ? Promise.reject(keyNotFound()) : this.load(key, () => scheduler.schedule(key), options);
+			}
+		};
+	}
+
 	/**
 	 * Removes multiple keys from the cache.
 	 *
@@ -167,29 +759,247 @@ export class EvictingCache<K, V> {
 	deleteAll(keys: Iterable<K>): number {
 		let count = 0;
 		for (const key of keys) {
-			if (this.cache.delete(key)) { count++ }
+			const id = this.idOf(key);
+			this.inflight.delete(id);
+			this.absent?.delete(key);
+			if (this.remove(id, 'delete')) { count++ }
 		}
+		this.flush();
 
 		return count;
 	}
 
 	/**
-	 * Gets cache statistics including hit/miss counts and hit rate.
+	 * Applies several writes atomically. The writes made through the transaction are staged while the callback runs,
+	 * then applied together once it returns, after which entries are evicted once for the final state of the cache.
+	 * If the callback throws, nothing is applied and the error is rethrown, so the entries and their LRU order are left as they were.
+	 * With the `reject` pinned overflow, the transaction is rejected if any of its puts would not fit alongside the pinned entries of the final state.
 	 *
-	 * @returns Cache statistics.
+	 * The callback must be synchronous, and calls made directly on the cache inside it are not part of the transaction.
+	 *
+	 * @param callback Stages the writes through the transaction.
+	 * @returns The result of the callback.
+	 */
+	transaction<R>(callback: (transaction: CacheTransaction<K, V>) => R): R {
+		const writes = new Map<unknown, StagedWrite<K, V>>();
+		let open = true;
+		const stageWrite = (id: unknown, write: StagedWrite<K, V>): void => {
+			if (!open) { throw new TypeError('transaction has already ended') }
+			// Deleting first moves the write to the end, so the last write of a key decides its LRU order
+			writes.delete(id);
+			writes.set(id, write);
+		};
+		const lookup = (key: K): V | typeof missing => {
+			if (!open) { throw new TypeError('transaction has already ended') }
+			const id = this.idOf(key);
+			const write = writes.get(id);
+			if (write !== undefined) { return write.put === undefined ? missing : write.put.value }
+			const entry = this.getEntry(id);
+
+			return entry === undefined ? missing : valueOf(entry) as V;
+		};
+
+		let result: R;
+		try {
+			result = callback({
+				get: (key) => {
+					const value = lookup(key);
+
+					return value === missing ? null : value;
+				},
+				has: (key) => lookup(key) !== missing,
+				put: (key, value, options) => {
+					const put = this.stage(key, value, options);
+					// The tags are copied so that applying the write cannot throw
+					if (put.tags !== undefined) { put.tags = Array.from(put.tags) }
+					stageWrite(this.idOf(key), { key, put });
+				},
+				delete: (key) => {
+					const found = lookup(key) !== missing;
+					stageWrite(this.idOf(key), { key });
+
+					return found;
+				}
+			});
+			if (result instanceof Promise) { throw new TypeError('transaction callback must be synchronous') }
+			if (this.pinnedOverflow === 'reject') { this.checkPinnedRoom(writes) }
+		} catch (error) {
+			open = false;
+			// Expired entries that the transaction read have been removed
+			this.flush();
+			throw error;
+		}
+		open = false;
+
+		for (const [id, { key, put }] of writes) {
+			if (put === undefined) {
+				this.inflight.delete(id);
+				this.absent?.delete(key);
+				this.remove(id, 'delete');
+			} else {
+				this.insert(key, id, put, false);
+			}
+		}
+		this.makeRoom(0, 0);
+		this.flush();
+
+		return result;
+	}
+
+	/**
+	 * Removes every entry that has the given tag.
+	 *
+	 * @param tag The tag.
+	 * @returns The number of entries that were removed.
+	 */
+	invalidateTag(tag: string): number {
+		return this.invalidateTags([tag]);
+	}
+
+	/**
+	 * Removes every entry that has at least one of the given tags.
+	 * The removed values are disposed of with the `delete` reason.
+	 *
+	 * @param tags The tags.
+	 * @returns The number of entries that were removed.
+	 */
+	invalidateTags(tags: Iterable<string>): number {
+		const invalidated = Array.from(tags);
+		let count = 0;
+		for (const tag of invalidated) {
+			const entries = this.tagIndex.get(tag);
+			if (entries === undefined) { continue }
+
+			// Removing an entry removes it from the index, so the entries are copied first
+			for (const { id } of Array.from(entries)) {
+				this.inflight.delete(id);
+				this.remove(id, 'delete');
+				count++;
+			}
+		}
+		if (this.listeners.has('invalidate')) { this.events.push(createCacheEvent('invalidate', { tags: invalidated })) }
+		this.flush();
+
+		return count;
+	}
+
+	/**
+	 * Creates a versioned, JSON-safe snapshot of the cache that can be restored with `restore()` or `EvictingCache.from()`.
+	 * The entries are listed in eviction order along with when they expire. Expired entries are left out.
+	 *
+	 * @param options The codecs used to convert keys and values that are not JSON-safe.
+	 * @returns The snapshot.
 	 */
-	getStats(): CacheStats {
-		const total = this.hits + this.misses;
+	dump({ keyCodec = identityCodec, valueCodec = identityCodec }: SnapshotOptions<K, V> = {}): CacheSnapshot {
+		const entries: SnapshotEntry[] = [];
+		const now = this.hasExpiringEntries ? Date.now() : 0;
+		for (const cacheEntry of this.ordered(false)) {
+			const { key, expiresAt, staleAt, tags } = cacheEntry;
+			const value = valueOf(cacheEntry);
+			if (expiresAt <= now || value === collected) { continue }
 
-		return { hits: this.hits, misses: this.misses, hitRate: total === 0 ? 0 : this.hits / total };
+			const entry: SnapshotEntry = { key: keyCodec.encode(key), value: valueCodec.encode(value) };
+			if (expiresAt !== Infinity) { entry.expiresAt = expiresAt }
+			if (staleAt !== Infinity) { entry.staleAt = staleAt }
+			if (tags !== undefined) { entry.tags = Array.from(tags) }
+			if (this.pinnedEntries.has(cacheEntry)) { entry.pinned = true }
+			entries.push(entry);
+		}
+
+		return { version: snapshotVersion, capacity: this._capacity, policy: this._policy, entries };
+	}
+
+	/**
+	 * Puts the entries of a snapshot created by `dump()` into the cache, in their original order.
+	 * The entries follow the same eviction rules as put(), and entries that have expired since the snapshot was taken are skipped.
+	 * Eviction policies that track more than the order of the entries, such as how often they were read, start over.
+	 *
+	 * @param snapshot The snapshot to restore.
+	 * @param options The codecs used to convert keys and values that are not JSON-safe.
+	 * @returns The number of entries that were restored.
+	 */
+	restore(snapshot: CacheSnapshot, { keyCodec = identityCodec, valueCodec = identityCodec }: SnapshotOptions<K, V> = {}): number {
+		if (snapshot.version !== snapshotVersion) { throw new RangeError(`Unsupported snapshot version: ${String(snapshot.version)}`) }
+
+		const now = Date.now();
+		let count = 0;
+		try {
+			for (const { key, value, expiresAt = Infinity, staleAt = Infinity, tags, pinned } of snapshot.entries) {
+				if (expiresAt <= now) { continue }
+
+				this.putAndEvict(keyCodec.decode(key), valueCodec.decode(value), { tags, pinned }, expiresAt, staleAt);
+				count++;
+			}
+		} finally {
+			this.flush();
+		}
+
+		return count;
+	}
+
+	/**
+	 * Adds a listener for the events of the cache, as with `EventTarget`.
+	 * Listeners are called once the operation that emitted the event has completed, in the order of the events.
+	 * If a listener throws, the remaining listeners are still called and the error is then rethrown to the caller.
+	 * Overwriting a key emits a `set` event only, and `clear()` emits a single `clear` event rather than one per entry.
+	 * Events are only created for types that have listeners, so the cache does no extra work when nobody is listening.
+	 *
+	 * @param type The type of event to listen for.
+	 * @param listener The function, or object with a `handleEvent()` method, called with each event.
+	 * @param options Whether the listener is only called once and the signal that removes it.
+	 */
+	addEventListener<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>, options?: CacheEventListenerOptions): void {
+		this.listeners.add(type, listener, options);
+	}
+
+	/**
+	 * Removes a listener added with `addEventListener()` or `on()`.
+	 *
+	 * @param type The type of event the listener was added for.
+	 * @param listener The listener to remove.
+	 */
+	removeEventListener<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>): void {
+		this.listeners.remove(type, listener);
+	}
+
+	/**
+	 * Adds a listener for the events of the cache, like `addEventListener()`.
+	 *
+	 * @param type The type of event to listen for.
+	 * @param listener The function called with each event.
+	 * @param options Whether the listener is only called once and the signal that removes it.
+	 * @returns A function that removes the listener.
+	 */
+	on<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>, options?: CacheEventListenerOptions): () => void {
+		this.listeners.add(type, listener, options);
+
+		return () => this.listeners.remove(type, listener);
+	}
+
+	/**
+	 * Removes a listener, like `removeEventListener()`.
+	 *
+	 * @param type The type of event the listener was added for.
+	 * @param listener The listener to remove.
+	 */
+	off<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>): void {
+		this.listeners.remove(type, listener);
+	}
+
+	/**
+	 * Gets cache statistics including hit/miss counts and hit rate, the counts of sets, deletes, evictions and loads, and the size of the cache.
+	 *
+	 * @returns Cache statistics.
+	 */
+	getStats(): EvictingCacheStats {
+		return this.stats.toStats(this.size, this.pinnedCount, this._capacity);
 	}
 
 	/**
 	 * Resets cache statistics to zero.
 	 */
 	resetStats(): void {
-		this.hits = 0;
-		this.misses = 0;
+		this.stats.reset();
 	}
 
 	/**
@@ -197,16 +1007,56 @@ export class EvictingCache<K, V> {
 	 * This is the maximum number of key-value pairs the cache can hold.
 	 * This is not the number of key-value pairs in the cache.
 	 *
-	 * @readonly
 	 * @returns The capacity of the cache.
 	 */
 	get capacity(): number {
 		return this._capacity;
 	}
 
+	/**
+	 * Sets the capacity of the cache, as with `resize()`.
+	 *
+	 * @param capacity The new maximum number of key-value pairs the cache can hold.
+	 */
+	set capacity(capacity: number) {
+		this.resize(capacity);
+	}
+
+	/**
+	 * Gets the eviction policy of the cache.
+	 *
+	 * @readonly
+	 * @returns The name of the eviction policy.
+	 */
+	get policy(): EvictionPolicyName {
+		return this._policy;
+	}
+
+	/**
+	 * Gets the maximum total size of the entries in the cache, as measured by the `sizeCalculation` option.
+	 * A maximum size of 0 means that the cache is only limited by its capacity.
+	 *
+	 * @readonly
+	 * @returns The maximum size of the cache.
+	 */
+	get maxSize(): number {
+		return this._maxSize;
+	}
+
+	/**
+	 * Gets the total size of the entries in the cache, as measured by the `sizeCalculation` option.
+	 * The calculated size will be less than or equal to the maximum size, unless the maximum size is 0.
+	 *
+	 * @readonly
+	 * @returns The total size of the entries in the cache.
+	 */
+	get calculatedSize(): number {
+		return this._calculatedSize;
+	}
+
 	/**
 	 * Gets the size of the cache.
-	 * This is the number of key-value pairs in the cache.
+	 * This is the number of key-value pairs in the cache that have not expired.
 	 * This is not the capacity of the cache.
 	 * The capacity is the maximum number of key-value pairs the cache can hold.
 	 * The size is the number of key-value pairs currently in the cache.
@@ -215,42 +1065,75 @@ export class EvictingCache<K, V> {
 	 * @returns The size of the cache.
 	 */
 	get size(): number {
-		return this.cache.size;
+		if (!this.hasExpiringEntries && this.hot === undefined) { return this.cache.size }
+
+		let size = 0;
+		for (const _ of this.entries()) { size++ }
+
+		return size;
 	}
 
 	/**
-	 * Returns an iterator over the keys in the cache.
-	 * The keys are returned in the order of least recently used to most recently used.
+	 * Gets the number of pinned entries in the cache that have not expired, which are included in its size.
 	 *
+	 * @readonly
+	 * @returns The number of pinned entries.
+	 */
+	get pinnedCount(): number {
+		if (!this.hasExpiringEntries) { return this.pinnedEntries.size }
+
+		const now = Date.now();
+		let count = 0;
+		for (const entry of this.pinnedEntries) {
+			if (entry.expiresAt > now) { count++ }
+		}
+
+		return count;
+	}
+
+	/**
+	 * Returns an iterator over the keys in the cache, skipping any that have expired.
+	 * The keys are returned in eviction order, which is least recently used to most recently used for the LRU policy, or in reverse.
+	 *
+	 * @param options Whether to iterate in reverse and over a snapshot of the entries.
 	 * @returns An iterator over the keys in the cache.
 	 */
-	keys(): IterableIterator<K> {
-		return this.cache.keys();
+	*keys(options?: IterationOptions): IterableIterator<K> {
+		for (const [key] of this.entries(options)) { yield key }
 	}
 
 	/**
-	 * Returns an iterator over the values in the cache.
-	 * The values are returned in the order of least recently used to most recently used.
+	 * Returns an iterator over the values in the cache, skipping any that have expired.
+	 * The values are returned in eviction order, which is least recently used to most recently used for the LRU policy, or in reverse.
 	 *
+	 * @param options Whether to iterate in reverse and over a snapshot of the entries.
 	 * @returns An iterator over the values in the cache.
 	 */
-	values(): IterableIterator<V> {
-		return this.cache.values();
+	*values(options?: IterationOptions): IterableIterator<V> {
+		for (const [, value] of this.entries(options)) { yield value }
 	}
 
 	/**
-	 * Returns an iterator over the entries in the cache.
-	 * The entries are returned in the order of least recently used to most recently used.
+	 * Returns an iterator over the entries in the cache, skipping any that have expired.
+	 * The entries are returned in eviction order, which is least recently used to most recently used for the LRU policy, or in reverse.
+	 * Pinned entries come last, from least to most recently used.
 	 *
+	 * @param options Whether to iterate in reverse and over a snapshot of the entries.
 	 * @returns An iterator over the entries in the cache.
 	 */
-	entries(): IterableIterator<[K, V]> {
-		return this.cache.entries();
+	*entries({ reverse = false, snapshot = false }: IterationOptions = {}): IterableIterator<[K, V]> {
+		// A snapshot only copies the references to the entries, as a put replaces an entry rather than changing it
+		const entries = snapshot ? Array.from(this.ordered(reverse)) : this.ordered(reverse);
+		const now = this.hasExpiringEntries ? Date.now() : 0;
+		for (const entry of entries) {
+			const value = valueOf(entry);
+			if (entry.expiresAt > now && value !== collected) { yield [entry.key, value] }
+		}
 	}
 
 	/**
 	 * Returns an iterator over the entries in the cache.
-	 * The entries are returned in the order of least recently used to most recently used.
+	 * The entries are returned in eviction order, which is least recently used to most recently used for the LRU policy.
 	 *
 	 * @returns An iterator over the entries in the cache.
 	 */
@@ -258,6 +1141,19 @@ export class EvictingCache<K, V> {
 		return this.entries();
 	}
 
+	/**
+	 * Lists the entries in the cache a page at a time, such as for an admin tool paging through a large cache.
+	 * Pass the cursor of a page to get the next page, until a page is returned without a cursor.
+	 * Unless the `snapshot` option is set, the listing is live, as with `entries()`. A snapshot listing copies a reference to every entry when its first page is read.
+	 * The cursor holds the iteration in memory, so it cannot be serialized or used after a restart.
+	 *
+	 * @param options The maximum number of entries of the page, the cursor of the previous page, and for the first page, how to iterate.
+	 * @returns The page, with the cursor of the next page unless the listing has ended.
+	 */
+	page({ limit, cursor, ...options }: PageOptions<K, V>): CachePage<K, V> {
+		return readPage(cursor?.entries ?? this.entries(options), limit);
+	}
+
 	/**
 	 * Gets the description of the object.
 	 *
@@ -269,19 +1165,586 @@ export class EvictingCache<K, V> {
 	}
 
 	/**
-	 * Puts a key-value pair into the cache and evicts the least recently used item if necessary.
+	 * Puts a key-value pair into the cache and evicts the least recently used items if necessary.
 	 * If the key already exists, the item is removed and re-added to update its position.
-	 * If the cache is full, the least recently used item is evicted and the new item is added.
+	 * If the cache is full, least recently used items are evicted until the new item fits and the new item is added.
 	 * @param key The key to put.
 	 * @param value The value to put.
-	 * @returns The value that was put.
+	 * @param options Options for the entry, such as its time-to-live and tags.
+	 * @param expiresAt When the entry expires, in milliseconds since the epoch. Calculated from the time-to-live if omitted.
+	 * @param staleAt When the entry becomes stale, in milliseconds since the epoch. Calculated from the `staleAfter` option if omitted.
+	 */
+	private putAndEvict(key: K, value: V, options?: PutOptions, expiresAt?: number, staleAt?: number): void {
+		this.insert(key, this.idOf(key), this.stage(key, value, options), true, expiresAt, staleAt);
+	}
+
+	/**
+	 * Validates the time-to-live and the size of a put.
+	 *
+	 * @param key The key to put.
+	 * @param value The value to put.
+	 * @param options Options for the entry, such as its time-to-live and tags.
+	 * @returns The validated put.
+	 */
+	private stage(key: K, value: V, { ttl = this.ttl, tags, pinned }: PutOptions = {}): StagedPut<V> {
+		validateTtl(ttl);
+
+		let size = 0;
+		if (this.sizeCalculation !== undefined) {
+			size = this.sizeCalculation(value, key);
+			if (!(size >= 0 && size < Infinity)) { throw new RangeError('sizeCalculation must return a finite number greater than or equal to 0') }
+			if (this._maxSize > 0 && size > this._maxSize) { throw new RangeError('entry size must not exceed maxSize') }
+		}
+
+		return { value, ttl, tags, size, pinned };
+	}
+
+	/**
+	 * Puts a validated key-value pair into the cache, replacing the previous entry of the key.
+	 *
+	 * @param key The key to put.
+	 * @param id The id of the entry.
+	 * @param put The validated value, time-to-live, tags, size and pin.
+	 * @param evict Whether to evict entries to make room for the entry, which is false when a transaction evicts once all of its writes are applied.
+	 * @param expiresAt When the entry expires, in milliseconds since the epoch. Calculated from the time-to-live if omitted.
+	 * @param staleAt When the entry becomes stale, in milliseconds since the epoch. Calculated from the `staleAfter` option if omitted.
+	 */
+	private insert(key: K, id: unknown, { value, ttl, tags, size, pinned }: StagedPut<V>, evict: boolean, expiresAt?: number, staleAt?: number): void {
+		// An entry that is replaced keeps its place in the map, which is overwritten below rather than deleted and re-added
+		const previous = this.cache.get(id);
+		const previousPinned = previous !== undefined && this.pinnedEntries.has(previous);
+		if (evict && this.pinnedOverflow === 'reject' && this.pinnedEntries.size > 0) {
+			const count = this.pinnedEntries.size - (previousPinned ? 1 : 0);
+			const pinnedSize = this.pinnedSize - (previousPinned ? previous.size : 0);
+			if (this.overflows(count + 1, pinnedSize + size)) { throw new RangeError('the pinned entries leave no room for the entry') }
+		}
+
+		if (this.inflight.size > 0) { this.inflight.delete(id) }
+		this.absent?.delete(key);
+
+		if (previous !== undefined) { this.unlink(previous) }
+		if (evict) { this.makeRoom(previous === undefined ? 1 : 0, size) }
+		if (previous !== undefined) {
+			const previousValue = valueOf(previous);
+			if (previousValue !== collected && previousValue !== value) { this.queueDisposal(previousValue, previous.key, 'set') }
+		}
+
+		const now = Date.now();
+		expiresAt ??= ttl > 0 ? now + ttl : Infinity;
+		staleAt ??= this.staleAfter > 0 ? now + this.staleAfter : Infinity;
+		if (expiresAt !== Infinity) { this.hasExpiringEntries = true }
+
+		const refreshAt = this.refreshAfter > 0 ? now + this.refreshAfter : Infinity;
+		const entry: CacheEntry<K, V> = { key, id, value, ttl, expiresAt, staleAt, refreshAt, size };
+		if (tags !== undefined) { this.indexTags(entry, tags) }
+		this.cache.set(id, entry);
+		pinned ??= previousPinned;
+		if (pinned) {
+			this.pinnedEntries.add(entry);
+			this.pinnedSize += size;
+		} else {
+			this.evictionPolicy.insert(entry);
+		}
+		this.heat(entry);
+		this._calculatedSize += size;
+		this.stats.set();
+		if (this.listeners.has('set')) { this.events.push(createCacheEvent('set', { key, value, expiresAt, tags: Array.from(entry.tags ?? []), pinned })) }
+	}
+
+	/**
+	 * Moves an entry to the end of the hot segment, holding its value strongly again,
+	 * and holds the value of the least recently used entry of the segment weakly once the segment is full.
+	 * Pinned entries are held strongly outside the segment. The value of the entry must not have been collected.
+	 *
+	 * @param entry The entry that was put or read.
+	 * @returns The value of the entry.
+	 */
+	private heat(entry: CacheEntry<K, V>): V {
+		const hot = this.hot;
+		if (hot === undefined) { return entry.value }
+
+		if (entry.ref !== undefined) {
+			entry.value = entry.ref.deref() as V;
+			entry.ref = undefined;
+			this.registry!.unregister(entry);
+		}
+		const value = entry.value;
+		if (this.pinnedEntries.has(entry)) { return value }
+
+		hot.delete(entry);
+		hot.add(entry);
+		if (hot.size > this.hotSize) {
+			const coldest = hot.values().next().value!;
+			hot.delete(coldest);
+			this.chill(coldest);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Holds the value of an entry that left the hot segment weakly, if it is an object.
+	 *
+	 * @param entry The entry.
+	 */
+	private chill(entry: CacheEntry<K, V>): void {
+		const value = entry.value;
+		if (!((typeof value === 'object' && value !== null) || typeof value === 'function')) { return }
+
+		entry.ref = new WeakRef(value);
+		this.registry!.register(value, entry.id, entry);
+		// The WeakRef is the only reference to the value left
+		entry.value = undefined as V;
+	}
+
+	/**
+	 * Removes an entry once its value has been garbage collected, unless it has been replaced since.
+	 *
+	 * @param id The id of the entry.
+	 */
+	private collect(id: unknown): void {
+		const entry = this.cache.get(id);
+		if (entry !== undefined && valueOf(entry) === collected) { this.detach(id) }
+	}
+
+	/**
+	 * Adds an entry to the index of each of its tags.
+	 *
+	 * @param entry The entry.
+	 * @param tags The tags of the entry.
+	 */
+	private indexTags(entry: CacheEntry<K, V>, tags: Iterable<string>): void {
+		for (const tag of tags) {
+			entry.tags ??= new Set();
+			entry.tags.add(tag);
+
+			let entries = this.tagIndex.get(tag);
+			if (entries === undefined) { this.tagIndex.set(tag, entries = new Set()) }
+			entries.add(entry);
+		}
+	}
+
+	/**
+	 * Loads the value of a key and puts it into the cache, sharing a single pending load between concurrent callers.
+	 * The value is not put if the key is put, deleted or the cache is cleared before the load completes.
+	 * If the producer resolves `notFound`, the key is removed and remembered as absent instead, and the promise rejects.
+	 *
+	 * @param key The key to load.
+	 * @param producer Produces the value of the key.
+	 * @param options Options for the entry, such as its time-to-live.
+	 * @param background Whether the load refreshes an entry in the background, so that errors of the callbacks it runs go to `onError` instead of rejecting.
+	 * @returns A promise for the loaded value.
+	 */
+	private load(key: K, producer: () => Promise<V | typeof notFound>, options?: PutOptions, background = false): Promise<V> {
+		const id = this.idOf(key);
+		let pending = this.inflight.get(id);
+		if (pending === undefined) {
+			const start = performance.now();
+			pending = Promise.resolve()
+				.then(producer)
+				.then((value) => {
+					this.stats.load(performance.now() - start, false);
+					// Only use the value if the load has not been superseded while it was pending
+					if (value === notFound) {
+						if (this.inflight.get(id) === pending) {
+							// A stale value that was being refreshed no longer exists either
+							this.remove(id, 'delete');
+							this.absent?.put(key, true);
+							if (background) { this.flushInBackground() } else { this.flush() }
+						}
+						throw keyNotFound();
+					}
+					if (this.inflight.get(id) === pending) {
+						this.putAndEvict(key, value, options);
+						// The value is in the cache even if a callback throws, so that error is not a failure of the load
+						if (background) { this.flushInBackground() } else { this.flush() }
+					}
+
+					return value;
+				}, (error: unknown) => {
+					this.stats.load(performance.now() - start, true);
+					throw error;
+				})
+				.finally(() => {
+					if (this.inflight.get(id) === pending) { this.inflight.delete(id) }
+				});
+			this.inflight.set(id, pending);
+		}
+
+		return pending;
+	}
+
+	/**
+	 * Keeps a stale entry for the `staleIfError` grace period after refreshing it has failed.
+	 * The grace period is not extended by further failures.
+	 *
+	 * @param entry The stale entry.
+	 */
+	private retainStale(entry: CacheEntry<K, V>): void {
+		// The entry may have been replaced or removed while it was being refreshed
+		if (this.cache.get(entry.id) !== entry) { return }
+
+		if (this.staleIfError > 0) {
+			entry.expiresAt = Math.min(entry.expiresAt, Date.now() + this.staleIfError);
+			this.hasExpiringEntries = true;
+		} else {
+			this.remove(entry.id, 'expire');
+			this.flushInBackground();
+		}
+	}
+
+	/**
+	 * Delivers the disposals and events of a change made in the background, passing the errors of the callbacks to `onError`.
+	 */
+	private flushInBackground(): void {
+		try {
+			this.flush();
+		} catch (error) {
+			this.onError(error);
+		}
+	}
+
+	/**
+	 * Returns the id of the entry of a key, which is the key of the entry in the map.
+	 *
+	 * @param key The key.
+	 * @returns The result of the `keyHasher` option, or the key itself.
+	 */
+	private idOf(key: K): unknown {
+		return this.keyHasher === undefined ? key : this.keyHasher(key);
+	}
+
+	/**
+	 * Looks up the value of a key, recording a hit or a miss and updating the LRU order of an entry that is found.
+	 * An entry that is due to be refreshed is reloaded in the background.
+	 *
+	 * @param key The key.
+	 * @param id The id of the entry.
+	 * @param reload Reloads the value of an entry that is due to be refreshed. Defaults to the `fetchMethod` option.
+	 * @param options Options for the reloaded entry. Defaults to keeping the tags of the entry.
+	 * @returns The value if the key is in the cache and has not expired, or {@link missing} otherwise.
 	 */
-	private putAndEvict(key: K, value: V) {
-		const existed = this.cache.delete(key);
-		if (!existed && this._capacity <= this.cache.size) { this.evict() }
+	private read(key: K, id: unknown, reload?: (staleValue: V) => Promise<V | typeof notFound>, options?: PutOptions): V | typeof missing {
+		const entry = this.getEntry(id);
+		if (entry === undefined) {
+			this.stats.miss();
+			if (this.listeners.has('miss')) { this.events.push(createCacheEvent('miss', { key })) }
+			return missing;
+		}
 
-		this.cache.set(key, value);
+		this.stats.hit();
+		if (this.pinnedEntries.has(entry)) {
+			this.pinnedEntries.moveToEnd(entry);
+		} else {
+			this.evictionPolicy.touch(entry);
+		}
+		const value = this.heat(entry);
+		if (this.listeners.has('hit')) { this.events.push(createCacheEvent('hit', { key, value })) }
+		if (entry.refreshAt !== Infinity && entry.refreshAt <= Date.now()) { this.refresh(entry, value, reload, options) }
 
 		return value;
 	}
+
+	/**
+	 * Reloads an entry in the background, unless it is already being loaded. The entry keeps its value if the reload fails.
+	 *
+	 * @param entry The entry that is due to be refreshed.
+	 * @param value The value of the entry.
+	 * @param reload Reloads the value. Defaults to the `fetchMethod` option, without which the entry is not refreshed.
+	 * @param options Options for the reloaded entry. Defaults to keeping the time-to-live and tags of the entry.
+	 */
+	private refresh(entry: CacheEntry<K, V>, value: V, reload?: (staleValue: V) => Promise<V | typeof notFound>, options: PutOptions = { ttl: entry.ttl, tags: entry.tags }): void {
+		const { key, id } = entry;
+		const fetchMethod = this.fetchMethod;
+		reload ??= fetchMethod && ((staleValue) => fetchMethod(key, staleValue));
+		if (reload === undefined || this.inflight.has(id)) { return }
+
+		// A failed reload leaves the entry as it is, to be reloaded by a later read
+		this.load(key, () => reload(value), options, true).catch(() => undefined);
+	}
+
+	/**
+	 * Gets an entry without updating the LRU order.
+	 * If the entry has expired, it is removed from the cache.
+	 *
+	 * @param id The id of the entry.
+	 * @returns The entry if it is in the cache and has not expired, or undefined otherwise.
+	 */
+	private getEntry(id: unknown): CacheEntry<K, V> | undefined {
+		const entry = this.cache.get(id);
+		if (entry === undefined) { return undefined }
+		if (entry.ref !== undefined && entry.ref.deref() === undefined) {
+			// The value was collected before the finalization registry removed the entry
+			this.detach(id);
+			return undefined;
+		}
+		if (entry.expiresAt === Infinity || entry.expiresAt > Date.now()) { return entry }
+
+		this.remove(id, 'expire');
+
+		return undefined;
+	}
+
+	/**
+	 * Removes the entry chosen by the eviction policy from the cache.
+	 *
+	 * @returns True if an entry was removed, false otherwise.
+	 */
+	private evictEntry(): boolean {
+		const victim = this.evictionPolicy.victim();
+		if (victim === undefined) { return false }
+
+		return this.remove(victim.id, victim.expiresAt <= Date.now() ? 'expire' : 'evict');
+	}
+
+	/**
+	 * Evicts entries chosen by the eviction policy until the cache has room for more entries, or only pinned entries are left.
+	 *
+	 * @param count The number of entries to make room for.
+	 * @param size The total size of the entries to make room for.
+	 */
+	private makeRoom(count: number, size: number): void {
+		while (this.overflows(this.cache.size + count, this._calculatedSize + size)) {
+			if (!this.evictEntry()) { return }
+		}
+	}
+
+	/**
+	 * Returns true if a number of entries of a total size exceed the capacity or the `maxSize` option.
+	 *
+	 * @param count The number of entries.
+	 * @param size The total size of the entries.
+	 * @returns True if the entries do not fit in the cache, false otherwise.
+	 */
+	private overflows(count: number, size: number): boolean {
+		return count > this._capacity || (this._maxSize > 0 && size > this._maxSize);
+	}
+
+	/**
+	 * Throws if a put of a transaction would not fit alongside the pinned entries once every write of the transaction is applied.
+	 * Puts that keep the pin of the previous value are resolved to whether it was pinned.
+	 *
+	 * @param writes The writes of the transaction.
+	 */
+	private checkPinnedRoom(writes: Map<unknown, StagedWrite<K, V>>): void {
+		let count = this.pinnedEntries.size;
+		let size = this.pinnedSize;
+		for (const [id, { put }] of writes) {
+			const previous = this.cache.get(id);
+			if (previous !== undefined && this.pinnedEntries.has(previous)) {
+				count--;
+				size -= previous.size;
+				if (put !== undefined) { put.pinned ??= true }
+			}
+			if (put?.pinned) {
+				count++;
+				size += put.size;
+			}
+		}
+
+		for (const { put } of writes.values()) {
+			if (put === undefined) { continue }
+			// A put must fit alongside the pinned entries, as when it is put on its own
+			if (put.pinned ? this.overflows(count, size) : this.overflows(count + 1, size + put.size)) { throw new RangeError('the pinned entries leave no room for the entry') }
+		}
+	}
+
+	/**
+	 * Returns an iterator over the entries of the eviction policy in eviction order, followed by the pinned entries from least to most recently used.
+	 *
+	 * @param reverse Whether to iterate in the opposite order.
+	 * @returns An iterator over every entry.
+	 */
+	private *ordered(reverse: boolean): IterableIterator<CacheEntry<K, V>> {
+		if (reverse) {
+			yield* this.pinnedEntries.reversed();
+			yield* this.evictionPolicy.reversed();
+		} else {
+			yield* this.evictionPolicy.entries();
+			yield* this.pinnedEntries;
+		}
+	}
+
+	/**
+	 * Removes an entry from the cache, queues its value to be disposed and queues an event for the removal.
+	 *
+	 * @param id The id of the entry.
+	 * @param reason The reason the entry is being removed.
+	 * @returns True if the entry was in the cache and was removed, false otherwise.
+	 */
+	private remove(id: unknown, reason: 'delete' | 'evict' | 'expire'): boolean {
+		const entry = this.detach(id);
+		if (entry === undefined) { return false }
+
+		const key = entry.key;
+		// A value that has been collected can neither be disposed of nor reported
+		const value = valueOf(entry);
+		if (value === collected) { return true }
+
+		this.queueDisposal(value, key, reason);
+		if (reason === 'delete') {
+			this.stats.delete();
+			if (this.listeners.has('delete')) { this.events.push(createCacheEvent('delete', { key, value })) }
+		} else {
+			this.stats.evict(reason);
+			if (this.listeners.has('evict')) { this.events.push(createCacheEvent('evict', { key, value, reason })) }
+		}
+
+		return true;
+	}
+
+	/**
+	 * Removes an entry from the cache without disposing of its value.
+	 *
+	 * @param id The id of the entry.
+	 * @returns The removed entry, or undefined if it was not in the cache.
+	 */
+	private detach(id: unknown): CacheEntry<K, V> | undefined {
+		const entry = this.cache.get(id);
+		if (entry === undefined) { return undefined }
+
+		this.cache.delete(id);
+		this.unlink(entry);
+
+		return entry;
+	}
+
+	/**
+	 * Removes an entry from the eviction policy or the pinned entries, the hot segment and the tag index, leaving it in the map.
+	 *
+	 * @param entry The entry.
+	 */
+	private unlink(entry: CacheEntry<K, V>): void {
+		if (this.pinnedEntries.delete(entry)) {
+			this.pinnedSize -= entry.size;
+		} else {
+			this.evictionPolicy.remove(entry);
+		}
+		this._calculatedSize -= entry.size;
+		this.hot?.delete(entry);
+		if (entry.ref !== undefined) { this.registry!.unregister(entry) }
+		if (entry.tags !== undefined) {
+			for (const tag of entry.tags) {
+				const entries = this.tagIndex.get(tag)!;
+				entries.delete(entry);
+				if (entries.size === 0) { this.tagIndex.delete(tag) }
+			}
+		}
+	}
+
+	/**
+	 * Queues a removed value to be passed to the dispose callback once the current operation has completed.
+	 *
+	 * @param value The removed value.
+	 * @param key The key of the removed value.
+	 * @param reason The reason the value was removed.
+	 */
+	private queueDisposal(value: V, key: K, reason: DisposeReason): void {
+		if (this.dispose !== undefined) { this.disposals.push([value, key, reason]) }
+	}
+
+	/**
+	 * Passes every queued value to the dispose callback, then every queued event to its listeners.
+	 * Every value is disposed and every listener is called even if one of them throws, after which the error is rethrown.
+	 */
+	private flush(): void {
+		if (this.disposals.length === 0 && this.events.length === 0) { return }
+
+		// The callbacks may modify the cache, which queues their own disposals and events
+		const disposals = this.disposals;
+		const events = this.events;
+		this.disposals = [];
+		this.events = [];
+
+		const errors: unknown[] = [];
+		for (const [value, key, reason] of disposals) {
+			try {
+				this.dispose!(value, key, reason);
+			} catch (error) {
+				errors.push(error);
+			}
+		}
+
+		for (const event of events) { this.listeners.dispatch(event, errors) }
+
+		if (errors.length === 1) { throw errors[0] }
+		if (errors.length > 1) { throw new AggregateError(errors, 'Multiple dispose callbacks or event listeners threw') }
+	}
+}
+
+/**
+ * Returns the value of an entry, whether it is held strongly or weakly.
+ *
+ * @param entry The entry.
+ * @returns The value, or {@link collected} if it was held weakly and has been garbage collected.
+ */
+function valueOf<V>(entry: { value: V; ref?: WeakRef<object> }): V | typeof collected {
+	if (entry.ref === undefined) { return entry.value }
+
+	return entry.ref.deref() as V | undefined ?? collected;
+}
+
+/**
+ * Creates the error that a key that does not exist is rejected with, which `tryFetch()` tells apart from other errors by its cause.
+ *
+ * @returns The error.
+ */
+function keyNotFound(): RangeError {
+	return new RangeError('key was not found', { cause: notFound });
+}
+
+/**
+ * Returns true if an error was created by {@link keyNotFound}.
+ *
+ * @param error The error.
+ * @returns True if the error is for a key that does not exist, false otherwise.
+ */
+function isKeyNotFound(error: unknown): boolean {
+	return error instanceof RangeError && error.cause === notFound;
+}
+
+/**
+ * Validates the capacity of a cache.
+ *
+ * @param capacity The maximum number of entries of the cache.
+ */
+function validateCapacity(capacity: number): void {
+	if (capacity < 1) { throw new RangeError('capacity must be greater than 0') }
+	if (!Number.isInteger(capacity)) { throw new RangeError('capacity must be an integer') }
+}
+
+/**
+ * Validates a time-to-live value.
+ *
+ * @param ttl The time-to-live, in milliseconds.
+ */
+function validateTtl(ttl: number): void {
+	if (!(ttl >= 0 && ttl < Infinity)) { throw new RangeError('ttl must be a finite number greater than or equal to 0') }
+}
+
+/**
+ * Periodically purges the expired entries of a cache.
+ * The cache is only weakly referenced, so the timer stops once the cache has been garbage collected.
+ *
+ * @param cache The cache to purge.
+ * @param interval The interval between purges, in milliseconds.
+ * @param onError Called with the error when disposing of the purged values or notifying listeners throws.
+ */
+function schedulePurge(cache: { purgeStale(): number }, interval: number, onError: (error: unknown) => void): void {
+	const cacheRef = new WeakRef(cache);
+	const timer = setInterval(() => {
+		const target = cacheRef.deref();
+		if (target === undefined) {
+			clearInterval(timer);
+		} else {
+			try {
+				target.purgeStale();
+			} catch (error) {
+				onError(error);
+			}
+		}
+	}, interval);
+
+	// The sweep should never keep a Node.js process alive on its own
+	(timer as { unref?: () => void }).unref?.();
 }
\ No newline at end of file
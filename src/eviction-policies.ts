@@ -0,0 +1,566 @@
+import { hashKey } from './hash.js';
+import { LinkedList, type ListNode } from './linked-list.js';
+
+/**
+ * The eviction policies supported by an EvictingCache.
+ *
+ * - `lru`: evicts the least recently used entry.
+ * - `fifo`: evicts the oldest entry, reads do not affect the order.
+ * - `lfu`: evicts the least frequently used entry, the least recently added of them on a tie.
+ * - `slru`: segmented LRU, entries that are read again are protected from entries that are only read once.
+ * - `tinylfu`: W-TinyLFU, a small LRU window in front of a segmented LRU, with a frequency filter deciding which of them gives up an entry.
+ */
+export type EvictionPolicyName = 'lru' | 'fifo' | 'lfu' | 'slru' | 'tinylfu';
+
+/** An entry tracked by an eviction policy, which links it into the lists of the policy. */
+export type PolicyEntry = ListNode & {
+	/** Identifies the entry across puts of the same key, such as the result of a key hasher. */
+	readonly id: unknown;
+};
+
+/**
+ * Decides which entry of a cache is evicted next.
+ * A policy only tracks the entries, the cache itself stores and removes them.
+ */
+export interface EvictionPolicy<E extends PolicyEntry> {
+	/**
+	 * Starts tracking an entry that was added to the cache.
+	 *
+	 * @param entry The added entry.
+	 */
+	insert(entry: E): void;
+
+	/**
+	 * Records a read of an entry.
+	 *
+	 * @param entry The entry that was read.
+	 */
+	touch(entry: E): void;
+
+	/**
+	 * Stops tracking an entry that was removed from the cache.
+	 *
+	 * @param entry The removed entry.
+	 */
+	remove(entry: E): void;
+
+	/** Stops tracking every entry. */
+	clear(): void;
+
+	/**
+	 * Adapts the policy to a new capacity of the cache, keeping the entries it tracks.
+	 * The cache evicts the entries that no longer fit afterwards.
+	 *
+	 * @param capacity The new maximum number of entries of the cache.
+	 */
+	resize(capacity: number): void;
+
+	/**
+	 * Returns the entry that should be evicted next.
+	 *
+	 * @returns The entry to evict, or undefined if no entries are tracked.
+	 */
+	victim(): E | undefined;
+
+	/**
+	 * Returns an iterator over the tracked entries, from the entry the policy would evict first to the entry it would evict last.
+	 *
+	 * @returns An iterator over the tracked entries.
+	 */
+	entries(): IterableIterator<E>;
+
+	/**
+	 * Returns an iterator over the tracked entries, from the entry the policy would evict last to the entry it would evict first.
+	 *
+	 * @returns An iterator over the tracked entries.
+	 */
+	reversed(): IterableIterator<E>;
+}
+
+/** The share of the W-TinyLFU capacity that is used by its window. */
+const windowShare = 0.01;
+/** The share of a segmented LRU that is used by its protected segment. */
+const protectedShare = 0.8;
+
+/**
+ * Creates an eviction policy.
+ *
+ * @param name The name of the policy.
+ * @param capacity The maximum number of entries of the cache.
+ * @returns The eviction policy.
+ */
+export function createEvictionPolicy<E extends PolicyEntry>(name: EvictionPolicyName, capacity: number): EvictionPolicy<E> {
+	switch (name) {
+		case 'lru': return new LruPolicy();
+		case 'fifo': return new FifoPolicy();
+		case 'lfu': return new LfuPolicy();
+		case 'slru': return new SlruPolicy(protectedCapacity(capacity));
+		case 'tinylfu': return new TinyLfuPolicy(capacity);
+		default: throw new RangeError(`Unknown eviction policy: ${String(name)}`);
+	}
+}
+
+/**
+ * Returns the maximum number of entries in the protected segment of a segmented LRU.
+ *
+ * @param capacity The maximum number of entries of the segmented LRU.
+ * @returns The maximum number of protected entries.
+ */
+function protectedCapacity(capacity: number): number {
+	return Math.max(1, Math.round(capacity * protectedShare));
+}
+
+/** Least Recently Used: evicts the entry that was read or added the longest time ago. */
+class LruPolicy<E extends PolicyEntry> implements EvictionPolicy<E> {
+	protected readonly order: LinkedList<E> = new LinkedList();
+
+	insert(entry: E): void {
+		this.order.add(entry);
+	}
+
+	touch(entry: E): void {
+		// Move the entry to the end (most recently used)
+		this.order.moveToEnd(entry);
+	}
+
+	remove(entry: E): void {
+		this.order.delete(entry);
+	}
+
+	clear(): void {
+		this.order.clear();
+	}
+
+	resize(_capacity: number): void {
+		// The order does not depend on the capacity
+	}
+
+	victim(): E | undefined {
+		return this.order.first;
+	}
+
+	entries(): IterableIterator<E> {
+		return this.order[Symbol.iterator]();
+	}
+
+	reversed(): IterableIterator<E> {
+		return this.order.reversed();
+	}
+}
+
+/** First In, First Out: evicts the entry that was added the longest time ago. */
+class FifoPolicy<E extends PolicyEntry> extends LruPolicy<E> {
+	override touch(_entry: E): void {
+		// Reads do not affect the order
+	}
+}
+
+/** Least Frequently Used: evicts the entry that was read the fewest times, or the one added first if there is a tie. */
+class LfuPolicy<E extends PolicyEntry> implements EvictionPolicy<E> {
+	private readonly frequencies: Map<E, number> = new Map();
+	/** The entries for each frequency, in the order they reached it. */
+	private readonly buckets: Map<number, LinkedList<E>> = new Map();
+	/** The frequencies of the buckets, in ascending order. */
+	private readonly frequencyOrder: number[] = [];
+	private minFrequency = 0;
+
+	insert(entry: E): void {
+		this.link(entry, 1);
+		this.minFrequency = 1;
+	}
+
+	touch(entry: E): void {
+		const frequency = this.frequencies.get(entry);
+		if (frequency === undefined) { return }
+
+		this.unlink(entry, frequency);
+		this.link(entry, frequency + 1);
+		if (this.minFrequency === frequency && !this.buckets.has(frequency)) { this.minFrequency = frequency + 1 }
+	}
+
+	remove(entry: E): void {
+		const frequency = this.frequencies.get(entry);
+		if (frequency === undefined) { return }
+
+		this.frequencies.delete(entry);
+		this.unlink(entry, frequency);
+		if (this.minFrequency === frequency && !this.buckets.has(frequency)) { this.minFrequency = this.frequencyOrder[0] ?? 0 }
+	}
+
+	clear(): void {
+		this.frequencies.clear();
+		this.buckets.clear();
+		this.frequencyOrder.length = 0;
+		this.minFrequency = 0;
+	}
+
+	resize(_capacity: number): void {
+		// The frequencies do not depend on the capacity
+	}
+
+	victim(): E | undefined {
+		return this.buckets.get(this.minFrequency)?.first;
+	}
+
+	*entries(): IterableIterator<E> {
+		// The next bucket is looked up after each one, as reads move entries into buckets that may not exist yet
+		for (let frequency = this.nextFrequency(0, 1); frequency !== undefined; frequency = this.nextFrequency(frequency, 1)) {
+			yield* this.buckets.get(frequency)!;
+		}
+	}
+
+	*reversed(): IterableIterator<E> {
+		for (let frequency = this.nextFrequency(Infinity, -1); frequency !== undefined; frequency = this.nextFrequency(frequency, -1)) {
+			yield* this.buckets.get(frequency)!.reversed();
+		}
+	}
+
+	/**
+	 * Finds the frequency of the bucket that follows a frequency.
+	 *
+	 * @param frequency The frequency to start from.
+	 * @param direction 1 for the next higher frequency, -1 for the next lower one.
+	 * @returns The frequency of the bucket, or undefined if there is none.
+	 */
+	private nextFrequency(frequency: number, direction: 1 | -1): number | undefined {
+		// Frequencies are integers, so the next higher one is the first at or above the one after it
+		return direction === 1 ? this.frequencyOrder[this.search(frequency + 1)] : this.frequencyOrder[this.search(frequency) - 1];
+	}
+
+	/**
+	 * Finds the position of the first bucket whose frequency is greater than or equal to a frequency.
+	 *
+	 * @param frequency The frequency.
+	 * @returns The index in the sorted frequencies, which is their length if there is no such bucket.
+	 */
+	private search(frequency: number): number {
+		let low = 0;
+		let high = this.frequencyOrder.length;
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+			if (this.frequencyOrder[middle]! < frequency) { low = middle + 1 } else { high = middle }
+		}
+
+		return low;
+	}
+
+	/**
+	 * Adds an entry to the bucket of a frequency.
+	 *
+	 * @param entry The entry.
+	 * @param frequency The frequency of the entry.
+	 */
+	private link(entry: E, frequency: number): void {
+		let bucket = this.buckets.get(frequency);
+		if (bucket === undefined) {
+			bucket = new LinkedList();
+			this.buckets.set(frequency, bucket);
+			this.frequencyOrder.splice(this.search(frequency), 0, frequency);
+		}
+
+		bucket.add(entry);
+		this.frequencies.set(entry, frequency);
+	}
+
+	/**
+	 * Removes an entry from the bucket of a frequency, removing the bucket once it is empty.
+	 *
+	 * @param entry The entry.
+	 * @param frequency The frequency of the entry.
+	 */
+	private unlink(entry: E, frequency: number): void {
+		const bucket = this.buckets.get(frequency)!;
+		bucket.delete(entry);
+		if (bucket.size === 0) {
+			this.buckets.delete(frequency);
+			this.frequencyOrder.splice(this.search(frequency), 1);
+		}
+	}
+}
+
+/**
+ * Segmented LRU: new entries are added to a probation segment and move to a protected segment when they are read again.
+ * Entries are evicted from the probation segment first, so a scan over many keys cannot flush out the entries that are read repeatedly.
+ */
+class SlruPolicy<E extends PolicyEntry> implements EvictionPolicy<E> {
+	protected readonly probation: LinkedList<E> = new LinkedList();
+	protected readonly protectedSegment: LinkedList<E> = new LinkedList();
+	protected protectedCapacity: number;
+
+	/**
+	 * Creates a new segmented LRU policy.
+	 *
+	 * @param protectedCapacity The maximum number of entries in the protected segment.
+	 */
+	constructor(protectedCapacity: number) {
+		this.protectedCapacity = protectedCapacity;
+	}
+
+	insert(entry: E): void {
+		this.probation.add(entry);
+	}
+
+	touch(entry: E): void {
+		if (this.probation.delete(entry)) {
+			this.protect(entry);
+		} else {
+			this.protectedSegment.moveToEnd(entry);
+		}
+	}
+
+	remove(entry: E): void {
+		if (!this.probation.delete(entry)) { this.protectedSegment.delete(entry) }
+	}
+
+	clear(): void {
+		this.probation.clear();
+		this.protectedSegment.clear();
+	}
+
+	resize(capacity: number): void {
+		this.protectedCapacity = protectedCapacity(capacity);
+		this.demoteProtected();
+	}
+
+	victim(): E | undefined {
+		return this.probation.first ?? this.protectedSegment.first;
+	}
+
+	*entries(): IterableIterator<E> {
+		yield* this.probation;
+		yield* this.protectedSegment;
+	}
+
+	*reversed(): IterableIterator<E> {
+		yield* this.protectedSegment.reversed();
+		yield* this.probation.reversed();
+	}
+
+	/**
+	 * Moves an entry into the protected segment, demoting its least recently used entry back to probation if it is full.
+	 *
+	 * @param entry The entry to protect.
+	 */
+	protected protect(entry: E): void {
+		this.protectedSegment.add(entry);
+		this.demoteProtected();
+	}
+
+	/** Moves the least recently used entries of the protected segment back to probation until it is within its capacity. */
+	protected demoteProtected(): void {
+		while (this.protectedSegment.size > this.protectedCapacity) {
+			// Adding the entry to probation removes it from the protected segment
+			this.probation.add(this.protectedSegment.first!);
+		}
+	}
+}
+
+/**
+ * W-TinyLFU: new entries are added to a small LRU window in front of a segmented LRU.
+ * When the cache is full, the entry leaving the window only replaces the next victim of the segmented LRU if it has been used more often,
+ * as estimated by a frequency sketch, so entries that are only used once never push out popular ones.
+ * Entries are ordered by segment: the window, then the probation and protected segments.
+ */
+class TinyLfuPolicy<E extends PolicyEntry> extends SlruPolicy<E> {
+	private readonly window: LinkedList<E> = new LinkedList();
+	private windowCapacity: number;
+	private readonly sketch: FrequencySketch;
+
+	/**
+	 * Creates a new W-TinyLFU policy.
+	 *
+	 * @param capacity The maximum number of entries of the cache.
+	 */
+	constructor(capacity: number) {
+		const windowCapacity = Math.max(1, Math.round(capacity * windowShare));
+		super(protectedCapacity(capacity - windowCapacity));
+		this.windowCapacity = windowCapacity;
+		this.sketch = new FrequencySketch(capacity);
+	}
+
+	override insert(entry: E): void {
+		this.sketch.increment(entry.id);
+		this.window.add(entry);
+		if (this.window.size > this.windowCapacity) {
+			// The candidate won its place when the victim was chosen, or the segmented LRU still had room
+			this.probation.add(this.window.first!);
+		}
+	}
+
+	override touch(entry: E): void {
+		this.sketch.increment(entry.id);
+		if (this.window.has(entry)) {
+			this.window.moveToEnd(entry);
+		} else {
+			super.touch(entry);
+		}
+	}
+
+	override remove(entry: E): void {
+		if (!this.window.delete(entry)) { super.remove(entry) }
+	}
+
+	override clear(): void {
+		super.clear();
+		this.window.clear();
+		this.sketch.clear();
+	}
+
+	override resize(capacity: number): void {
+		this.windowCapacity = Math.max(1, Math.round(capacity * windowShare));
+		super.resize(capacity - this.windowCapacity);
+		// Entries leaving the window no longer compete for their place, the cache evicts whatever no longer fits
+		while (this.window.size > this.windowCapacity) { this.probation.add(this.window.first!) }
+		this.sketch.resize(capacity);
+	}
+
+	override victim(): E | undefined {
+		const victim = super.victim();
+		// The window can take another entry without giving one up
+		if (this.window.size < this.windowCapacity) { return victim ?? this.window.first }
+
+		const candidate = this.window.first!;
+		if (victim === undefined) { return candidate }
+
+		return this.sketch.frequency(candidate.id) > this.sketch.frequency(victim.id) ? victim : candidate;
+	}
+
+	override *entries(): IterableIterator<E> {
+		yield* this.window;
+		yield* super.entries();
+	}
+
+	override *reversed(): IterableIterator<E> {
+		yield* super.reversed();
+		yield* this.window.reversed();
+	}
+}
+
+/** The seeds used to derive the counter of each row of a frequency sketch. */
+const sketchSeeds = [ 0x97cb3127, 0xc3a5c85c, 0x2545f491, 0x9e3779b9 ];
+/** The largest value a frequency sketch counter can hold. */
+const maxCount = 15;
+
+/**
+ * Returns the number of counters in each row of a frequency sketch.
+ * Two counters per entry in each row keeps collisions between the keys of a full cache rare.
+ *
+ * @param capacity The maximum number of entries of the cache.
+ * @returns The number of counters in each row, a power of 2.
+ */
+function sketchWidth(capacity: number): number {
+	let width = 64;
+	while (width < capacity * 2) { width *= 2 }
+
+	return width;
+}
+
+/**
+ * A Count-Min sketch estimating how often each key was used, in a fixed amount of memory.
+ * The counters are halved periodically so that the estimates favor recent use.
+ */
+class FrequencySketch {
+	private counters: Uint8Array;
+	private mask: number;
+	private sampleSize: number;
+	private additions = 0;
+
+	/**
+	 * Creates a new frequency sketch.
+	 *
+	 * @param capacity The maximum number of entries of the cache.
+	 */
+	constructor(capacity: number) {
+		const width = sketchWidth(capacity);
+		this.counters = new Uint8Array(width * sketchSeeds.length);
+		this.mask = width - 1;
+		this.sampleSize = Math.max(capacity, 16) * 10;
+	}
+
+	/**
+	 * Adapts the sketch to a new capacity of the cache.
+	 * The counters are kept if the width of the sketch stays the same, otherwise the estimates start over.
+	 *
+	 * @param capacity The new maximum number of entries of the cache.
+	 */
+	resize(capacity: number): void {
+		const width = sketchWidth(capacity);
+		if (width !== this.mask + 1) {
+			this.counters = new Uint8Array(width * sketchSeeds.length);
+			this.mask = width - 1;
+			this.additions = 0;
+		}
+		this.sampleSize = Math.max(capacity, 16) * 10;
+	}
+
+	/**
+	 * Records a use of a key.
+	 *
+	 * @param key The key.
+	 */
+	increment(key: unknown): void {
+		const hash = hashKey(key);
+		const frequency = this.estimate(hash);
+		if (frequency < maxCount) {
+			// Only the counters holding the estimate are incremented, which limits how much colliding keys inflate each other
+			for (let row = 0; row < sketchSeeds.length; row++) {
+				const index = this.index(hash, row);
+				if (this.counters[index] === frequency) { this.counters[index]++ }
+			}
+		}
+
+		// A smaller sample size after resizing can already have been passed
+		if (++this.additions >= this.sampleSize) { this.age() }
+	}
+
+	/**
+	 * Estimates how often a key was used.
+	 *
+	 * @param key The key.
+	 * @returns The estimated number of uses.
+	 */
+	frequency(key: unknown): number {
+		return this.estimate(hashKey(key));
+	}
+
+	/** Resets every counter. */
+	clear(): void {
+		this.counters.fill(0);
+		this.additions = 0;
+	}
+
+	/**
+	 * Estimates how often the key of a hash was used, which is the smallest of its counters.
+	 *
+	 * @param hash The hash of the key.
+	 * @returns The estimated number of uses.
+	 */
+	private estimate(hash: number): number {
+		let frequency = maxCount;
+		for (let row = 0; row < sketchSeeds.length; row++) {
+			frequency = Math.min(frequency, this.counters[this.index(hash, row)]!);
+		}
+
+		return frequency;
+	}
+
+	/**
+	 * Returns the index of the counter of a hash in a row.
+	 *
+	 * @param hash The hash of the key.
+	 * @param row The row.
+	 * @returns The index of the counter.
+	 */
+	private index(hash: number, row: number): number {
+		let index = Math.imul(hash, sketchSeeds[row]!);
+		index ^= index >>> 17;
+
+		return row * (this.mask + 1) + (index & this.mask);
+	}
+
+	/** Halves every counter. */
+	private age(): void {
+		for (let i = 0; i < this.counters.length; i++) { this.counters[i]! >>= 1 }
+		this.additions = 0;
+	}
+}
@@ -0,0 +1,361 @@
+/// <reference types="node" />
+import { open, readFile, rename } from 'node:fs/promises';
+import { identityCodec, type Codec } from './codecs.js';
+import type { CacheEventMap, CacheSnapshot, EvictingCache, SnapshotOptions } from './evicting-cache.js';
+
+/** The events of the cache that change its contents. */
+type ChangeEvent<K, V> = CacheEventMap<K, V>['set' | 'delete' | 'evict' | 'clear' | 'pin' | 'unpin'];
+
+/** Options used to configure a {@link FilePersistence}. */
+export type FilePersistenceOptions<K, V> = SnapshotOptions<K, V> & {
+	/** How often logged operations are written to the log file, in milliseconds. `0` disables the timer. Defaults to 1000. */
+	flushInterval?: number;
+	/** How often a snapshot of the whole cache is written, in milliseconds. `0` disables the timer. Defaults to 60000. */
+	snapshotInterval?: number;
+	/** The number of logged operations after which the log is compacted into a new snapshot. `0` disables compaction by size. Defaults to 10000. */
+	compactAfter?: number;
+	/** Called when a write started by a timer fails. The next write recovers by writing a new snapshot. */
+	onError?: (error: unknown) => void;
+};
+
+/** The contents of the snapshot file. */
+type SnapshotFile = {
+	/** Incremented by every snapshot. Only a log of the same generation is replayed on top of the snapshot. */
+	generation: number;
+	snapshot: CacheSnapshot;
+};
+
+/** The first line of the log file. */
+type LogHeader = { generation: number };
+
+/** A line of the log file after its header. */
+type LogOperation =
+	| { op: 'set'; key: unknown; value: unknown; expiresAt?: number; tags?: readonly string[]; pinned?: true }
+	| { op: 'delete' | 'pin' | 'unpin'; key: unknown }
+	| { op: 'clear' };
+
+/**
+ * Persists an {@link EvictingCache} to a local file in the background so that it can be restored when the process restarts.
+ *
+ * The cache is written as a snapshot file at the given path, and every change since that snapshot is appended to a log file next to it.
+ * The log is replayed on top of the snapshot when the cache is restored, and compacted into a new snapshot periodically and once it grows too long.
+ * Snapshots are written to a temporary file that replaces the previous snapshot once it is complete,
+ * and a log line that was only partly written when the process crashed is ignored, so a crash never corrupts the restored cache.
+ *
+ * This adapter uses `node:fs` and is only available in Node.js.
+ */
+export class FilePersistence<K, V> {
+	private readonly cache: EvictingCache<K, V>;
+	private readonly path: string;
+	private readonly logPath: string;
+	private readonly keyCodec: Codec<K>;
+	private readonly valueCodec: Codec<V>;
+	private readonly flushInterval: number;
+	private readonly snapshotInterval: number;
+	private readonly compactAfter: number;
+	private readonly onError: (error: unknown) => void;
+	private operations: string[] = [];
+	private loggedOperations = 0;
+	private compactionPending = false;
+	private generation = 0;
+	private logReady = false;
+	private writes: Promise<void> = Promise.resolve();
+	private unsubscribers: (() => void)[] = [];
+	private timers: NodeJS.Timeout[] = [];
+
+	/**
+	 * Creates a new persistence adapter for the given cache.
+	 * Nothing is read or written until `restore()` or `start()` is called.
+	 *
+	 * @param cache The cache to persist.
+	 * @param path The path of the snapshot file. The log is written to the same path with a `.log` extension added.
+	 * @param options Additional options for the adapter, and the codecs used to convert keys and values that are not JSON-safe.
+	 */
+	constructor(cache: EvictingCache<K, V>, path: string, { keyCodec = identityCodec, valueCodec = identityCodec, flushInterval = 1000, snapshotInterval = 60000, compactAfter = 10000, onError = () => {} }: FilePersistenceOptions<K, V> = {}) {
+		if (!(flushInterval >= 0 && flushInterval < Infinity)) { throw new RangeError('flushInterval must be a finite number greater than or equal to 0') }
+		if (!(snapshotInterval >= 0 && snapshotInterval < Infinity)) { throw new RangeError('snapshotInterval must be a finite number greater than or equal to 0') }
+		if (!(Number.isInteger(compactAfter) && compactAfter >= 0)) { throw new RangeError('compactAfter must be an integer greater than or equal to 0') }
+
+		this.cache = cache;
+		this.path = path;
+		this.logPath = `${path}.log`;
+		this.keyCodec = keyCodec;
+		this.valueCodec = valueCodec;
+		this.flushInterval = flushInterval;
+		this.snapshotInterval = snapshotInterval;
+		this.compactAfter = compactAfter;
+		this.onError = onError;
+	}
+
+	/**
+	 * Creates a persistence adapter for the given cache, restores the cache from its files and starts persisting it.
+	 *
+	 * @param cache The cache to persist.
+	 * @param path The path of the snapshot file.
+	 * @param options Additional options for the adapter.
+	 * @returns A promise for the started adapter.
+	 */
+	static async open<K, V>(cache: EvictingCache<K, V>, path: string, options?: FilePersistenceOptions<K, V>): Promise<FilePersistence<K, V>> {
+		const persistence = new FilePersistence(cache, path, options);
+		await persistence.restore();
+		persistence.start();
+
+		return persistence;
+	}
+
+	/**
+	 * Restores the cache from the snapshot file and replays the log on top of it, then compacts both into a new snapshot.
+	 * Missing files are treated as empty. Must be called before `start()`.
+	 *
+	 * @returns A promise for the number of entries in the cache once it has been restored.
+	 */
+	restore(): Promise<number> {
+		if (this.unsubscribers.length > 0) { return Promise.reject(new Error('restore() must be called before start()')) }
+
+		return this.enqueue(async () => {
+			const snapshotFile = await readOptional(this.path);
+			this.generation = 0;
+			if (snapshotFile !== undefined) {
+				const { generation, snapshot } = JSON.parse(snapshotFile) as SnapshotFile;
+				this.cache.restore(snapshot, { keyCodec: this.keyCodec, valueCodec: this.valueCodec });
+				this.generation = generation;
+			}
+
+			const [header, ...lines] = (await readOptional(this.logPath) ?? '').split('\n');
+			// A log of another generation was already compacted into the snapshot before the process stopped
+			if (parseLine<LogHeader>(header)?.generation === this.generation) {
+				for (const line of lines) {
+					const operation = parseLine<LogOperation>(line);
+					// The last line is incomplete if the process stopped while it was being written
+					if (operation === undefined) { break }
+
+					this.replay(operation);
+				}
+			}
+
+			// The replayed log may end with an incomplete line, so it is replaced rather than appended to
+			await this.writeSnapshot();
+
+			return this.cache.size;
+		});
+	}
+
+	/** Starts logging changes to the cache and writing them to the files on the configured intervals. */
+	start(): void {
+		if (this.unsubscribers.length > 0) { return }
+
+		const record = (event: ChangeEvent<K, V>): void => this.record(event);
+		this.unsubscribers = [
+			this.cache.on('set', record), this.cache.on('delete', record), this.cache.on('evict', record), this.cache.on('clear', record),
+			this.cache.on('pin', record), this.cache.on('unpin', record),
+		];
+
+		if (this.flushInterval > 0) { this.timers.push(setInterval(() => { this.flush().catch(this.onError) }, this.flushInterval).unref()) }
+		if (this.snapshotInterval > 0) { this.timers.push(setInterval(() => { this.snapshot().catch(this.onError) }, this.snapshotInterval).unref()) }
+	}
+
+	/**
+	 * Appends the logged operations to the log file.
+	 * If the log file could not be written to previously, a new snapshot is written instead.
+	 *
+	 * @returns A promise that resolves once the operations have been written.
+	 */
+	flush(): Promise<void> {
+		return this.enqueue(async () => {
+			if (!this.logReady) { return this.writeSnapshot() }
+			if (this.operations.length === 0) { return }
+
+			const operations = this.operations;
+			this.operations = [];
+			try {
+				await writeFile(this.logPath, `${operations.join('\n')}\n`, 'a');
+			} catch (error) {
+				// The log may now end with an incomplete line, so the next write replaces it with a new snapshot
+				this.logReady = false;
+				throw error;
+			}
+		});
+	}
+
+	/**
+	 * Writes a snapshot of the whole cache and starts a new, empty log.
+	 *
+	 * @returns A promise that resolves once the snapshot has been written.
+	 */
+	snapshot(): Promise<void> {
+		return this.enqueue(() => this.writeSnapshot());
+	}
+
+	/**
+	 * Stops logging changes to the cache and writes the logged operations to the log file.
+	 *
+	 * @returns A promise that resolves once the logged operations have been written.
+	 */
+	close(): Promise<void> {
+		for (const unsubscribe of this.unsubscribers) { unsubscribe() }
+		for (const timer of this.timers) { clearInterval(timer) }
+		this.unsubscribers = [];
+		this.timers = [];
+
+		return this.flush();
+	}
+
+	/**
+	 * Adds a change to the cache to the operations waiting to be written to the log.
+	 *
+	 * @param event The event emitted by the cache.
+	 */
+	private record(event: ChangeEvent<K, V>): void {
+		let operation: LogOperation;
+		switch (event.type) {
+			case 'set':
+				operation = { op: 'set', key: this.keyCodec.encode(event.key), value: this.valueCodec.encode(event.value) };
+				if (event.expiresAt !== Infinity) { operation.expiresAt = event.expiresAt }
+				if (event.tags.length > 0) { operation.tags = event.tags }
+				if (event.pinned) { operation.pinned = true }
+				break;
+			case 'clear': operation = { op: 'clear' }; break;
+			case 'pin':
+			case 'unpin': operation = { op: event.type, key: this.keyCodec.encode(event.key) }; break;
+			default: operation = { op: 'delete', key: this.keyCodec.encode(event.key) };
+		}
+
+		// Encoded right away, as the value may be modified before it is written
+		this.operations.push(JSON.stringify(operation));
+
+		if (this.compactAfter > 0 && ++this.loggedOperations >= this.compactAfter && !this.compactionPending) {
+			this.compactionPending = true;
+			this.snapshot().catch(this.onError);
+		}
+	}
+
+	/**
+	 * Applies an operation read from the log to the cache.
+	 *
+	 * @param operation The operation.
+	 */
+	private replay(operation: LogOperation): void {
+		if (operation.op === 'clear') {
+			this.cache.clear();
+			return;
+		}
+
+		const key = this.keyCodec.decode(operation.key);
+		switch (operation.op) {
+			case 'delete': this.cache.delete(key); return;
+			case 'pin': this.cache.pin(key); return;
+			case 'unpin': this.cache.unpin(key); return;
+		}
+
+		const { expiresAt, tags, pinned = false } = operation;
+		if (expiresAt === undefined) {
+			this.cache.put(key, this.valueCodec.decode(operation.value), { ttl: 0, tags, pinned });
+		} else if (expiresAt > Date.now()) {
+			this.cache.put(key, this.valueCodec.decode(operation.value), { ttl: expiresAt - Date.now(), tags, pinned });
+		} else {
+			this.cache.delete(key);
+		}
+	}
+
+	/**
+	 * Writes a snapshot of the whole cache, then replaces the log with an empty log of the new generation.
+	 * Must only be called by a queued write.
+	 */
+	private async writeSnapshot(): Promise<void> {
+		const generation = this.generation + 1;
+		const contents = JSON.stringify({ generation, snapshot: this.cache.dump({ keyCodec: this.keyCodec, valueCodec: this.valueCodec }) } satisfies SnapshotFile);
+
+		// Every operation logged so far is part of the snapshot
+		const operations = this.operations;
+		this.operations = [];
+		this.loggedOperations = 0;
+		this.compactionPending = false;
+
+		try {
+			await replaceFile(this.path, contents);
+		} catch (error) {
+			this.operations = operations.concat(this.operations);
+			throw error;
+		}
+
+		// Until the log has been replaced, it belongs to the previous generation and is ignored by restore()
+		this.generation = generation;
+		this.logReady = false;
+		await replaceFile(this.logPath, `${JSON.stringify({ generation } satisfies LogHeader)}\n`);
+		this.logReady = true;
+	}
+
+	/**
+	 * Runs a task once every previously queued task has completed, so that the files are never written to concurrently.
+	 *
+	 * @param task The task to run.
+	 * @returns A promise for the result of the task.
+	 */
+	private enqueue<T>(task: () => Promise<T>): Promise<T> {
+		const result = this.writes.then(task);
+		this.writes = result.then(() => {}, () => {});
+
+		return result;
+	}
+}
+
+/**
+ * Reads a file as text.
+ *
+ * @param path The path of the file.
+ * @returns A promise for the contents of the file, or undefined if the file does not exist.
+ */
+async function readOptional(path: string): Promise<string | undefined> {
+	try {
+		return await readFile(path, 'utf8');
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === 'ENOENT') { return undefined }
+		throw error;
+	}
+}
+
+/**
+ * Parses a line of JSON.
+ *
+ * @param line The line.
+ * @returns The parsed value, or undefined if the line is missing or is not valid JSON.
+ */
+function parseLine<T>(line: string | undefined): T | undefined {
+	if (!line) { return undefined }
+
+	try {
+		return JSON.parse(line) as T;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Writes text to a file and waits until it has been flushed to the disk.
+ *
+ * @param path The path of the file.
+ * @param contents The text to write.
+ * @param flags `w` to replace the contents of the file, or `a` to append to them.
+ */
+async function writeFile(path: string, contents: string, flags: 'w' | 'a'): Promise<void> {
+	const file = await open(path, flags);
+	try {
+		await file.writeFile(contents, 'utf8');
+		await file.sync();
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * Replaces the contents of a file atomically, by writing them to a temporary file that is then renamed.
+ * If the process stops while the file is being written, the previous contents of the file are kept.
+ *
+ * @param path The path of the file.
+ * @param contents The new contents of the file.
+ */
+async function replaceFile(path: string, contents: string): Promise<void> {
+	const temporaryPath = `${path}.tmp`;
+	await writeFile(temporaryPath, contents, 'w');
+	await rename(temporaryPath, path);
+}
@@ -0,0 +1,55 @@
+const objectIds: WeakMap<object, number> = new WeakMap();
+let lastObjectId = 0;
+
+/**
+ * Hashes a cache key to an unsigned 32-bit integer.
+ * Primitive keys are hashed by value and object keys by identity, matching the key equality of a `Map`.
+ *
+ * @param key The key to hash.
+ * @returns The hash of the key.
+ */
+export function hashKey(key: unknown): number {
+	if ((typeof key === 'object' && key !== null) || typeof key === 'function') {
+		let id = objectIds.get(key);
+		if (id === undefined) {
+			id = ++lastObjectId;
+			objectIds.set(key, id);
+		}
+
+		return mix(id);
+	}
+
+	return mix(hashString(`${typeof key}:${String(key)}`));
+}
+
+/**
+ * Hashes a string with the 32-bit FNV-1a algorithm.
+ *
+ * @param value The string to hash.
+ * @returns The hash of the string.
+ */
+function hashString(value: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+
+	return hash;
+}
+
+/**
+ * Spreads the bits of a hash so that similar inputs produce very different outputs (the MurmurHash3 finalizer).
+ *
+ * @param hash The hash to mix.
+ * @returns The mixed hash as an unsigned 32-bit integer.
+ */
+function mix(hash: number): number {
+	hash ^= hash >>> 16;
+	hash = Math.imul(hash, 0x85ebca6b);
+	hash ^= hash >>> 13;
+	hash = Math.imul(hash, 0xc2b2ae35);
+	hash ^= hash >>> 16;
+
+	return hash >>> 0;
+}
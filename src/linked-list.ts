@@ -0,0 +1,190 @@
+/**
+ * An entry that can be held by a {@link LinkedList}.
+ * The links are stored on the entry itself, so moving an entry never allocates, and an entry can only be in one list at a time.
+ */
+export type ListNode = {
+	/** The list that holds the entry, if any. */
+	list?: LinkedList<ListNode> | undefined;
+	/** The previous entry of the list. Kept after the entry is removed, so that iterators can continue from it. */
+	prev?: ListNode | undefined;
+	/** The next entry of the list. Kept after the entry is removed, so that iterators can continue from it. */
+	next?: ListNode | undefined;
+	/** When the entry was added or moved to the end of its list, which increases from the first entry of the list to the last. */
+	order?: number;
+};
+
+/**
+ * An intrusive doubly-linked list, ordered from its first (least recently added or moved) entry to its last.
+ * Adding, removing and moving an entry to the end are O(1), without the rehashing of deleting and re-adding a `Set` entry.
+ */
+export class LinkedList<E extends ListNode> implements Iterable<E> {
+	private head: E | undefined;
+	private tail: E | undefined;
+	private _size = 0;
+	/** The order of the entry added or moved to the end last. */
+	private lastOrder = 0;
+
+	/**
+	 * Gets the number of entries in the list.
+	 *
+	 * @readonly
+	 * @returns The number of entries.
+	 */
+	get size(): number {
+		return this._size;
+	}
+
+	/**
+	 * Gets the first entry of the list.
+	 *
+	 * @readonly
+	 * @returns The first entry, or undefined if the list is empty.
+	 */
+	get first(): E | undefined {
+		return this.head;
+	}
+
+	/**
+	 * Returns true if the entry is in the list.
+	 *
+	 * @param entry The entry.
+	 * @returns True if the entry is in the list, false otherwise.
+	 */
+	has(entry: E): boolean {
+		return entry.list === this;
+	}
+
+	/**
+	 * Adds an entry to the end of the list, removing it from the list that held it before.
+	 *
+	 * @param entry The entry to add.
+	 */
+	add(entry: E): void {
+		entry.list?.delete(entry);
+		this.append(entry);
+		this._size++;
+	}
+
+	/**
+	 * Removes an entry from the list.
+	 *
+	 * @param entry The entry to remove.
+	 * @returns True if the entry was in the list and was removed, false otherwise.
+	 */
+	delete(entry: E): boolean {
+		if (entry.list !== this) { return false }
+
+		this.unlink(entry);
+		entry.list = undefined;
+		this._size--;
+
+		return true;
+	}
+
+	/**
+	 * Moves an entry of the list to its end.
+	 *
+	 * @param entry The entry to move, which must be in the list.
+	 */
+	moveToEnd(entry: E): void {
+		if (entry === this.tail) { return }
+
+		this.unlink(entry);
+		this.append(entry);
+	}
+
+	/** Removes every entry from the list. */
+	clear(): void {
+		for (let entry = this.head; entry !== undefined; entry = entry.next as E | undefined) { entry.list = undefined }
+		this.head = this.tail = undefined;
+		this._size = 0;
+	}
+
+	/**
+	 * Returns an iterator over the entries of the list, from first to last.
+	 * As with a `Set`, entries that are removed while iterating are skipped, and entries that are added or moved to the end are visited again.
+	 *
+	 * @returns An iterator over the entries.
+	 */
+	*[Symbol.iterator](): IterableIterator<E> {
+		let entry = this.head;
+		while (entry !== undefined) {
+			const order = entry.order!;
+			yield entry;
+			// Continues after the last entry that is still where it was when the current entry was yielded, if any
+			const anchor = this.anchor(entry, order + 1);
+			entry = (anchor === undefined ? this.head : anchor.next) as E | undefined;
+		}
+	}
+
+	/**
+	 * Returns an iterator over the entries of the list, from last to first.
+	 * As with a `Set`, entries that are removed while iterating are skipped.
+	 *
+	 * @returns An iterator over the entries.
+	 */
+	*reversed(): IterableIterator<E> {
+		let entry = this.tail;
+		while (entry !== undefined) {
+			const order = entry.order!;
+			yield entry;
+			entry = this.anchor(entry, order);
+		}
+	}
+
+	/**
+	 * Finds the last entry of the list, at or before an entry, whose order is less than a limit.
+	 * Removed entries keep their links, which lead back into the list through the entries that preceded them.
+	 * As the orders increase along the list, this finds where an iterator continues, even if the entry has been removed or moved since.
+	 *
+	 * @param entry The entry to start from, which may have been removed or moved.
+	 * @param limit The order that the entry must be less than.
+	 * @returns The entry, or undefined if no entry of the list is ordered before the limit.
+	 */
+	private anchor(entry: ListNode, limit: number): E | undefined {
+		let anchor: ListNode | undefined = entry;
+		while (anchor !== undefined && !(anchor.list === this && anchor.order! < limit)) {
+			// The links of an entry that is now in another list lead into that list, so the search starts over from the end of this list
+			anchor = anchor.list !== undefined && anchor.list !== this ? this.tail : anchor.prev;
+		}
+
+		return anchor as E | undefined;
+	}
+
+	/**
+	 * Links an entry after the last entry of the list.
+	 *
+	 * @param entry The entry.
+	 */
+	private append(entry: E): void {
+		entry.list = this;
+		entry.order = ++this.lastOrder;
+		entry.prev = this.tail;
+		entry.next = undefined;
+		if (this.tail === undefined) {
+			this.head = entry;
+		} else {
+			this.tail.next = entry;
+		}
+		this.tail = entry;
+	}
+
+	/**
+	 * Unlinks an entry from its neighbours, leaving its own links in place.
+	 *
+	 * @param entry The entry.
+	 */
+	private unlink(entry: E): void {
+		const { prev, next } = entry;
+		if (prev === undefined) {
+			this.head = next as E | undefined;
+		} else {
+			prev.next = next;
+		}
+		if (next === undefined) {
+			this.tail = prev as E | undefined;
+		} else {
+			next.prev = prev;
+		}
+	}
+}
@@ -0,0 +1,74 @@
+import { EvictingCache, type EvictingCacheOptions } from './evicting-cache.js';
+import { stableSerialize } from './stable-serialize.js';
+
+/** Options used to memoize a function with {@link memoize} or {@link memoized}. */
+export type MemoizeOptions<A extends unknown[], R, K = unknown> = EvictingCacheOptions<K, R> & {
+	/** The maximum number of results that are kept. Defaults to 100. */
+	capacity?: number;
+	/**
+	 * Resolves the cache key of a call from its arguments.
+	 * Defaults to the first argument for functions with a single parameter, and to a stable serialization of every argument otherwise.
+	 */
+	key?: (...args: A) => K;
+};
+
+/** A memoized function, with the cache that holds its results. */
+export type Memoized<A extends unknown[], R, K = unknown> = ((...args: A) => R) & {
+	/** The cache of the results, by key, such as to `delete()` a result, `clear()` every result or `getStats()`. */
+	readonly cache: EvictingCache<K, R>;
+};
+
+/**
+ * Returns a function that calls the given function once per key and returns the cached result for later calls with the same key.
+ * Calls that throw are not cached. For asynchronous functions, the promise is cached, so concurrent calls share it,
+ * and it is removed from the cache if it rejects.
+ *
+ * @param fn The function to memoize.
+ * @param options The options of the cache and how the key of a call is resolved.
+ * @returns The memoized function.
+ */
+export function memoize<A extends unknown[], R, K = unknown>(fn: (...args: A) => R, { capacity, key, ...options }: MemoizeOptions<A, R, K> = {}): Memoized<A, R, K> {
+	const cache = new EvictingCache<K, R>(capacity, options);
+	const resolveKey = key ?? (fn.length === 1 ? (...args: A) => args[0] as K : (...args: A) => stableSerialize(args) as K);
+
+	const memoizedFn = function(this: unknown, ...args: A): R {
+		const cacheKey = resolveKey(...args);
+		const cached = cache.tryGet(cacheKey);
+		if (cached.found) { return cached.value }
+
+		const result = fn.apply(this, args);
+		cache.put(cacheKey, result);
+		if (result instanceof Promise) {
+			result.catch(() => {
+				if (cache.peek(cacheKey) === result) { cache.delete(cacheKey) }
+			});
+		}
+
+		return result;
+	};
+
+	return Object.defineProperty(memoizedFn, 'cache', { value: cache }) as Memoized<A, R, K>;
+}
+
+/**
+ * A method decorator that memoizes a method with {@link memoize}.
+ * Every instance has its own cache, so results are never shared between instances.
+ *
+ * @param options The options of the caches and how the key of a call is resolved.
+ * @returns The decorator.
+ */
+export function memoized<This extends object, A extends unknown[], R>(options?: MemoizeOptions<A, R>): (method: (this: This, ...args: A) => R, context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>) => (this: This, ...args: A) => R {
+	return (method) => {
+		const instances = new WeakMap<This, Memoized<A, R>>();
+
+		return function(this: This, ...args: A): R {
+			let memoizedMethod = instances.get(this);
+			if (memoizedMethod === undefined) {
+				memoizedMethod = memoize(method.bind(this) as (...args: A) => R, options);
+				instances.set(this, memoizedMethod);
+			}
+
+			return memoizedMethod(...args);
+		};
+	};
+}
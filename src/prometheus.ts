@@ -0,0 +1,104 @@
+import type { EvictingCacheStats } from './cache-stats.js';
+
+/** The content type of the Prometheus text exposition format, for the `Content-Type` header of a metrics endpoint. */
+export const prometheusContentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+/** Options used to render the statistics of caches in the Prometheus text exposition format. */
+export type PrometheusOptions = {
+	/** The prefix of every metric name. Defaults to `evicting_cache`. */
+	prefix?: string;
+};
+
+/** A cache whose statistics can be rendered, such as an `EvictingCache`. */
+export type StatsSource = {
+	getStats(): EvictingCacheStats;
+};
+
+/** A value of a metric, with the labels that identify it besides the name of the cache. */
+type Sample = { suffix?: string; labels?: Record<string, string>; value: number };
+
+/** A metric rendered for every cache. */
+type Metric = {
+	name: string;
+	type: 'counter' | 'gauge' | 'summary';
+	help: string;
+	samples(stats: EvictingCacheStats): Sample[];
+};
+
+/** The metrics rendered for every cache. */
+const metrics: Metric[] = [
+	{ name: 'hits_total', type: 'counter', help: 'Lookups that found a value.', samples: ({ hits }) => [{ value: hits }] },
+	{ name: 'misses_total', type: 'counter', help: 'Lookups that did not find a value.', samples: ({ misses }) => [{ value: misses }] },
+	{ name: 'hit_ratio', type: 'gauge', help: 'Ratio of hits to lookups since the statistics were reset.', samples: ({ hitRate }) => [{ value: hitRate }] },
+	{ name: 'recent_hit_ratio', type: 'gauge', help: 'Ratio of hits to lookups over the most recent lookups.', samples: ({ recentHitRate }) => [{ value: recentHitRate }] },
+	{ name: 'sets_total', type: 'counter', help: 'Values put into the cache.', samples: ({ sets }) => [{ value: sets }] },
+	{ name: 'deletes_total', type: 'counter', help: 'Keys deleted from the cache.', samples: ({ deletes }) => [{ value: deletes }] },
+	{
+		name: 'evictions_total',
+		type: 'counter',
+		help: 'Entries removed to make room for other entries or because they had expired.',
+		samples: ({ evictions }) => [{ labels: { reason: 'evict' }, value: evictions.evict }, { labels: { reason: 'expire' }, value: evictions.expire }]
+	},
+	{
+		name: 'loads_total',
+		type: 'counter',
+		help: 'Values loaded into the cache, by whether the load succeeded.',
+		samples: ({ loads }) => [{ labels: { result: 'success' }, value: loads.successes }, { labels: { result: 'failure' }, value: loads.failures }]
+	},
+	{
+		name: 'load_duration_seconds',
+		type: 'summary',
+		help: 'Time spent loading values into the cache.',
+		samples: ({ loads }) => [{ suffix: '_sum', value: loads.totalTime / 1000 }, { suffix: '_count', value: loads.successes + loads.failures }]
+	},
+	{ name: 'size', type: 'gauge', help: 'Entries in the cache.', samples: ({ size }) => [{ value: size }] },
+	{ name: 'pinned', type: 'gauge', help: 'Entries in the cache that are exempt from eviction.', samples: ({ pinned }) => [{ value: pinned }] },
+	{ name: 'capacity', type: 'gauge', help: 'Maximum number of entries in the cache.', samples: ({ capacity }) => [{ value: capacity }] }
+];
+
+/**
+ * Renders the statistics of one or more named caches in the Prometheus text exposition format.
+ * Every metric has a `cache` label with the name of the cache, so several caches can be served from a single metrics endpoint.
+ *
+ * @param caches The caches to render, by name.
+ * @param options Additional options, such as the prefix of the metric names.
+ * @returns The metrics, in the Prometheus text exposition format.
+ */
+export function renderPrometheus(caches: ReadonlyMap<string, StatsSource> | Record<string, StatsSource>, { prefix = 'evicting_cache' }: PrometheusOptions = {}): string {
+	if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(prefix)) { throw new RangeError('prefix must be a valid Prometheus metric name') }
+
+	const stats = Array.from(caches instanceof Map ? caches : Object.entries(caches), ([name, cache]: [string, StatsSource]) => [name, cache.getStats()] as const);
+
+	let output = '';
+	for (const { name, type, help, samples } of metrics) {
+		const metricName = `${prefix}_${name}`;
+		output += `# HELP ${metricName} ${help}\n# TYPE ${metricName} ${type}\n`;
+		for (const [cacheName, cacheStats] of stats) {
+			for (const { suffix = '', labels, value } of samples(cacheStats)) {
+				output += `${metricName}${suffix}${formatLabels({ cache: cacheName, ...labels })} ${value}\n`;
+			}
+		}
+	}
+
+	return output;
+}
+
+/**
+ * Formats the labels of a sample.
+ *
+ * @param labels The labels.
+ * @returns The labels, in braces.
+ */
+function formatLabels(labels: Record<string, string>): string {
+	return `{${Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Escapes the backslashes, double quotes and line feeds of a label value.
+ *
+ * @param value The label value.
+ * @returns The escaped label value.
+ */
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
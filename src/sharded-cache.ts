@@ -0,0 +1,530 @@
+import { readPage, type CachePage, type IterationOptions, type PageOptions } from './cache-iteration.js';
+import type { CacheEventListener, CacheEventListenerOptions, CacheEventMap, CacheEventType } from './cache-events.js';
+import { toCacheStats, type EvictingCacheStats } from './cache-stats.js';
+import { EvictingCache, type CacheLookup, type EvictingCacheOptions, type PutOptions } from './evicting-cache.js';
+import { hashKey } from './hash.js';
+
+/**
+ * Options used to configure a {@link ShardedEvictingCache}. Every other option is passed to each shard, with `maxSize` and `negativeCapacity` split between them.
+ * Each shard limits the size of its own entries to its share of `maxSize`, so a single entry must not be larger than `maxSize` divided by `shards`.
+ */
+export type ShardedEvictingCacheOptions<K, V> = EvictingCacheOptions<K, V> & {
+	/** The number of shards. Defaults to 16. */
+	shards?: number;
+	/**
+	 * Hashes a key to the unsigned 32-bit integer that selects its shard.
+	 * Defaults to hashing the result of the `keyHasher` option, or the key itself, by value for primitives and by identity for objects.
+	 */
+	hash?: (key: K) => number;
+};
+
+/**
+ * A cache that splits its keys between independent {@link EvictingCache} shards by their hash.
+ * Each shard evicts on its own, so a shard holding frequently changing keys never makes operations on the other shards more expensive,
+ * and the shards can be handed to different workers.
+ */
+export class ShardedEvictingCache<K, V> {
+	private readonly _shards: EvictingCache<K, V>[];
+	private readonly hash: (key: K) => number;
+
+	/**
+	 * Creates a new sharded cache.
+	 *
+	 * @param capacity The maximum number of key-value pairs the cache can hold, split between the shards.
+	 * @param options Additional options for the cache and its shards.
+	 */
+	constructor(capacity: number = 100, { shards = 16, hash, ...options }: ShardedEvictingCacheOptions<K, V> = {}) {
+		if (!(Number.isInteger(shards) && shards > 0)) { throw new RangeError('shards must be an integer greater than 0') }
+		validateCapacity(capacity, shards);
+
+		const { keyHasher, maxSize = 0, negativeCapacity = 0 } = options;
+		this.hash = hash ?? (keyHasher === undefined ? hashKey : (key) => hashKey(keyHasher(key)));
+		this._shards = Array.from({ length: shards }, (_, index) => new EvictingCache<K, V>(shardCapacity(capacity, shards, index), {
+			...options,
+			maxSize: maxSize / shards,
+			negativeCapacity: Math.ceil(negativeCapacity / shards)
+		}));
+	}
+
+	/**
+	 * Gets the shards of the cache, such as to hand them to different workers.
+	 *
+	 * @readonly
+	 * @returns The shards.
+	 */
+	get shards(): readonly EvictingCache<K, V>[] {
+		return this._shards;
+	}
+
+	/**
+	 * Returns the shard that holds a key.
+	 *
+	 * @param key The key.
+	 * @returns The shard of the key.
+	 */
+	shardFor(key: K): EvictingCache<K, V> {
+		return this._shards[(this.hash(key) >>> 0) % this._shards.length]!;
+	}
+
+	/**
+	 * Returns the value associated with the given key and updates the eviction order of its shard.
+	 *
+	 * @param key The key to get the value for.
+	 * @returns The associated value if the key is in the cache, or null otherwise.
+	 */
+	get(key: K): V | null {
+		return this.shardFor(key).get(key);
+	}
+
+	/**
+	 * Looks up the given key and updates the eviction order of its shard, telling a cached `null` or `undefined` apart from a missing key.
+	 *
+	 * @param key The key to look up.
+	 * @returns Whether the key was found and its value, and whether a missing key is known to be absent.
+	 */
+	tryGet(key: K): CacheLookup<V> {
+		return this.shardFor(key).tryGet(key);
+	}
+
+	/**
+	 * Returns the value associated with the given key without updating the eviction order.
+	 *
+	 * @param key The key to get the value for.
+	 * @returns The associated value if the key is in the cache, or null otherwise.
+	 */
+	peek(key: K): V | null {
+		return this.shardFor(key).peek(key);
+	}
+
+	/**
+	 * Returns true if the given key is in the cache and has not expired, false otherwise.
+	 *
+	 * @param key The key to check.
+	 * @returns True if the key is in the cache, false otherwise.
+	 */
+	has(key: K): boolean {
+		return this.shardFor(key).has(key);
+	}
+
+	/**
+	 * Adds a key-value pair to the shard of the key, evicting an entry of that shard if it is full.
+	 *
+	 * @param key The key to add.
+	 * @param value The value to add.
+	 * @param options Options for the entry, such as its time-to-live.
+	 */
+	put(key: K, value: V, options?: PutOptions): void {
+		this.shardFor(key).put(key, value, options);
+	}
+
+	/**
+	 * Removes the specified key from the cache.
+	 *
+	 * @param key The key to remove.
+	 * @returns True if the key was in the cache and was removed, false otherwise.
+	 */
+	delete(key: K): boolean {
+		return this.shardFor(key).delete(key);
+	}
+
+	/**
+	 * Pins an entry, exempting it from eviction by its shard until it is unpinned.
+	 *
+	 * @param key The key of the entry to pin.
+	 * @returns True if the key is in the cache and is now pinned, false otherwise.
+	 */
+	pin(key: K): boolean {
+		return this.shardFor(key).pin(key);
+	}
+
+	/**
+	 * Unpins an entry, which its shard then treats as if it had just been put.
+	 *
+	 * @param key The key of the entry to unpin.
+	 * @returns True if the entry was pinned, false otherwise.
+	 */
+	unpin(key: K): boolean {
+		return this.shardFor(key).unpin(key);
+	}
+
+	/**
+	 * Returns the value for the key if it exists in the cache, or puts the value of the producer otherwise.
+	 *
+	 * @param key The key.
+	 * @param producer Produces the value to put if the key does not exist in the cache.
+	 * @param options Options for the entry if it is put, such as its time-to-live.
+	 * @returns The value corresponding to the key.
+	 */
+	getOrPut(key: K, producer: () => V, options?: PutOptions): V {
+		return this.shardFor(key).getOrPut(key, producer, options);
+	}
+
+	/**
+	 * Returns a promise for the value of the key, loading it with the asynchronous producer if it is not in the cache.
+	 *
+	 * @param key The key.
+	 * @param producer Produces the value to put if the key does not exist in the cache.
+	 * @param options Options for the entry if it is put, such as its time-to-live.
+	 * @returns A promise for the value corresponding to the key.
+	 */
+	getOrPutAsync(key: K, producer: () => Promise<V>, options?: PutOptions): Promise<V> {
+		return this.shardFor(key).getOrPutAsync(key, producer, options);
+	}
+
+	/**
+	 * Returns a promise for the value of the key, loading it with the `fetchMethod` option if it is not in the cache.
+	 *
+	 * @param key The key.
+	 * @returns A promise for the value corresponding to the key.
+	 */
+	fetch(key: K): Promise<V> {
+		return this.shardFor(key).fetch(key);
+	}
+
+	/**
+	 * Returns a promise for the lookup of the key, loading it with the `fetchMethod` option if it is not in the cache.
+	 *
+	 * @param key The key.
+	 * @returns A promise for whether the key was found and its value.
+	 */
+	tryFetch(key: K): Promise<CacheLookup<V>> {
+		return this.shardFor(key).tryFetch(key);
+	}
+
+	/**
+	 * Adds multiple key-value pairs to the cache.
+	 *
+	 * @param entries The entries to add.
+	 * @param options Options applied to every entry, such as their time-to-live.
+	 */
+	putAll(entries: Iterable<[K, V]>, options?: PutOptions): void {
+		for (const [key, value] of entries) { this.put(key, value, options) }
+	}
+
+	/**
+	 * Gets multiple values from the cache.
+	 *
+	 * @param keys The keys to get values for.
+	 * @returns A map of keys to their values, which excludes missing keys but includes cached `null` and `undefined` values.
+	 */
+	getAll(keys: Iterable<K>): Map<K, V> {
+		const result = new Map<K, V>();
+		for (const key of keys) {
+			const cached = this.tryGet(key);
+			if (cached.found) { result.set(key, cached.value) }
+		}
+
+		return result;
+	}
+
+	/**
+	 * Removes multiple keys from the cache.
+	 *
+	 * @param keys The keys to remove.
+	 * @returns The number of keys that were removed.
+	 */
+	deleteAll(keys: Iterable<K>): number {
+		let count = 0;
+		for (const key of keys) {
+			if (this.delete(key)) { count++ }
+		}
+
+		return count;
+	}
+
+	/**
+	 * Evicts an entry from the shard holding the most entries, or from the next one if every entry of that shard is pinned.
+	 *
+	 * @returns True if an entry was evicted, false otherwise.
+	 */
+	evict(): boolean {
+		return this._shards.toSorted((a, b) => b.size - a.size).some((shard) => shard.evict());
+	}
+
+	/**
+	 * Removes every entry that has at least one of the given tags, from every shard.
+	 *
+	 * @param tags The tags.
+	 * @returns The number of entries that were removed.
+	 */
+	invalidateTags(tags: Iterable<string>): number {
+		const invalidated = Array.from(tags);
+
+		return this.sum((shard) => shard.invalidateTags(invalidated));
+	}
+
+	/**
+	 * Removes every entry that has the given tag, from every shard.
+	 *
+	 * @param tag The tag.
+	 * @returns The number of entries that were removed.
+	 */
+	invalidateTag(tag: string): number {
+		return this.invalidateTags([tag]);
+	}
+
+	/**
+	 * Changes the capacity of the cache, splitting it between the shards.
+	 *
+	 * @param capacity The new maximum number of key-value pairs the cache can hold.
+	 * @returns The number of entries that were evicted.
+	 */
+	resize(capacity: number): number {
+		validateCapacity(capacity, this._shards.length);
+
+		return this.sum((shard, index) => shard.resize(shardCapacity(capacity, this._shards.length, index)));
+	}
+
+	/**
+	 * Evicts a fraction of the entries of every shard.
+	 *
+	 * @param fraction The fraction of the entries to evict, greater than 0 and less than or equal to 1.
+	 * @returns The number of entries that were evicted.
+	 */
+	shrink(fraction: number): number {
+		return this.sum((shard) => shard.shrink(fraction));
+	}
+
+	/**
+	 * Removes every expired key-value pair from every shard.
+	 *
+	 * @returns The number of entries that were removed.
+	 */
+	purgeStale(): number {
+		return this.sum((shard) => shard.purgeStale());
+	}
+
+	/** Removes every entry from every shard. */
+	clear(): void {
+		for (const shard of this._shards) { shard.clear() }
+	}
+
+	/**
+	 * Adds a listener for the events of every shard.
+	 *
+	 * @param type The type of event.
+	 * @param listener The listener.
+	 * @param options Whether the listener is only called once by each shard and the signal that removes it.
+	 * @returns A function that removes the listener from every shard.
+	 */
+	on<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>, options?: CacheEventListenerOptions): () => void {
+		const unsubscribers = this._shards.map((shard) => shard.on(type, listener, options));
+
+		return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+	}
+
+	/**
+	 * Removes a listener added with `on()` or `addEventListener()` from every shard.
+	 *
+	 * @param type The type of event the listener was added for.
+	 * @param listener The listener to remove.
+	 */
+	off<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>): void {
+		for (const shard of this._shards) { shard.off(type, listener) }
+	}
+
+	/**
+	 * Adds a listener for the events of every shard, like `on()`.
+	 *
+	 * @param type The type of event.
+	 * @param listener The function, or object with a `handleEvent()` method, called with each event.
+	 * @param options Whether the listener is only called once by each shard and the signal that removes it.
+	 */
+	addEventListener<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>, options?: CacheEventListenerOptions): void {
+		for (const shard of this._shards) { shard.addEventListener(type, listener, options) }
+	}
+
+	/**
+	 * Removes a listener from every shard, like `off()`.
+	 *
+	 * @param type The type of event the listener was added for.
+	 * @param listener The listener to remove.
+	 */
+	removeEventListener<T extends CacheEventType>(type: T, listener: CacheEventListener<CacheEventMap<K, V>[T]>): void {
+		this.off(type, listener);
+	}
+
+	/**
+	 * Gets the statistics of the cache, combined from every shard.
+	 * The recent hit rate is the average of the recent hit rates of the shards, weighted by their number of lookups.
+	 *
+	 * @returns The statistics.
+	 */
+	getStats(): EvictingCacheStats {
+		const shardStats = this._shards.map((shard) => shard.getStats());
+		const total = (select: (stats: EvictingCacheStats) => number): number => shardStats.reduce((sum, stats) => sum + select(stats), 0);
+		const lookups = total(({ hits, misses }) => hits + misses);
+		const loads = total(({ loads }) => loads.successes + loads.failures);
+		const loadTime = total(({ loads }) => loads.totalTime);
+
+		return {
+			...toCacheStats(total(({ hits }) => hits), total(({ misses }) => misses)),
+			recentHitRate: lookups === 0 ? 0 : total(({ hits, misses, recentHitRate }) => recentHitRate * (hits + misses)) / lookups,
+			sets: total(({ sets }) => sets),
+			deletes: total(({ deletes }) => deletes),
+			evictions: { evict: total(({ evictions }) => evictions.evict), expire: total(({ evictions }) => evictions.expire) },
+			loads: {
+				successes: total(({ loads }) => loads.successes),
+				failures: total(({ loads }) => loads.failures),
+				totalTime: loadTime,
+				averageTime: loads === 0 ? 0 : loadTime / loads
+			},
+			size: total(({ size }) => size),
+			pinned: total(({ pinned }) => pinned),
+			capacity: total(({ capacity }) => capacity)
+		};
+	}
+
+	/** Resets the statistics of every shard. */
+	resetStats(): void {
+		for (const shard of this._shards) { shard.resetStats() }
+	}
+
+	/**
+	 * Gets the capacity of the cache, which is the sum of the capacities of its shards.
+	 *
+	 * @returns The capacity of the cache.
+	 */
+	get capacity(): number {
+		return this.sum((shard) => shard.capacity);
+	}
+
+	/**
+	 * Sets the capacity of the cache, as with `resize()`.
+	 *
+	 * @param capacity The new maximum number of key-value pairs the cache can hold.
+	 */
+	set capacity(capacity: number) {
+		this.resize(capacity);
+	}
+
+	/**
+	 * Gets the number of key-value pairs in every shard.
+	 *
+	 * @readonly
+	 * @returns The size of the cache.
+	 */
+	get size(): number {
+		return this.sum((shard) => shard.size);
+	}
+
+	/**
+	 * Gets the number of pinned entries in every shard.
+	 *
+	 * @readonly
+	 * @returns The number of pinned entries.
+	 */
+	get pinnedCount(): number {
+		return this.sum((shard) => shard.pinnedCount);
+	}
+
+	/**
+	 * Executes a provided function once per each key/value pair in the cache, shard by shard.
+	 *
+	 * @param callbackfn Function to execute for each element.
+	 * @param thisArg Value to use as `this` when executing callback.
+	 */
+	forEach(callbackfn: (value: V, key: K, cache: ShardedEvictingCache<K, V>) => void, thisArg?: unknown): void {
+		for (const [key, value] of this.entries()) { callbackfn.call(thisArg, value, key, this) }
+	}
+
+	/**
+	 * Returns an iterator over the keys in the cache, shard by shard, each in eviction order, or all of it in reverse.
+	 *
+	 * @param options Whether to iterate in reverse and over a snapshot of the entries.
+	 * @returns An iterator over the keys in the cache.
+	 */
+	*keys(options?: IterationOptions): IterableIterator<K> {
+		for (const [key] of this.entries(options)) { yield key }
+	}
+
+	/**
+	 * Returns an iterator over the values in the cache, shard by shard, each in eviction order, or all of it in reverse.
+	 *
+	 * @param options Whether to iterate in reverse and over a snapshot of the entries.
+	 * @returns An iterator over the values in the cache.
+	 */
+	*values(options?: IterationOptions): IterableIterator<V> {
+		for (const [, value] of this.entries(options)) { yield value }
+	}
+
+	/**
+	 * Returns an iterator over the entries in the cache, shard by shard, each in eviction order, or all of it in reverse.
+	 * A snapshot covers every shard, as they are when the iteration starts.
+	 *
+	 * @param options Whether to iterate in reverse and over a snapshot of the entries.
+	 * @returns An iterator over the entries in the cache.
+	 */
+	*entries({ reverse = false, snapshot = false }: IterationOptions = {}): IterableIterator<[K, V]> {
+		if (snapshot) {
+			yield* Array.from(this.entries({ reverse }));
+			return;
+		}
+
+		const shards = reverse ? this._shards.toReversed() : this._shards;
+		for (const shard of shards) { yield* shard.entries({ reverse }) }
+	}
+
+	/**
+	 * Returns an iterator over the entries in the cache.
+	 *
+	 * @returns An iterator over the entries in the cache.
+	 */
+	[Symbol.iterator](): IterableIterator<[K, V]> {
+		return this.entries();
+	}
+
+	/**
+	 * Lists the entries in the cache a page at a time, in the order of `entries()`.
+	 * Pass the cursor of a page to get the next page, until a page is returned without a cursor.
+	 *
+	 * @param options The maximum number of entries of the page, the cursor of the previous page, and for the first page, how to iterate.
+	 * @returns The page, with the cursor of the next page unless the listing has ended.
+	 */
+	page({ limit, cursor, ...options }: PageOptions<K, V>): CachePage<K, V> {
+		return readPage(cursor?.entries ?? this.entries(options), limit);
+	}
+
+	/**
+	 * Gets the description of the object.
+	 *
+	 * @override
+	 * @returns The description of the object.
+	 */
+	get [Symbol.toStringTag](): string {
+		return 'ShardedEvictingCache';
+	}
+
+	/**
+	 * Adds up a number for every shard.
+	 *
+	 * @param count Returns the number of a shard.
+	 * @returns The sum.
+	 */
+	private sum(count: (shard: EvictingCache<K, V>, index: number) => number): number {
+		return this._shards.reduce((sum, shard, index) => sum + count(shard, index), 0);
+	}
+}
+
+/**
+ * Validates the capacity of a sharded cache, which every shard needs at least one entry of.
+ *
+ * @param capacity The capacity of the cache.
+ * @param shards The number of shards.
+ */
+function validateCapacity(capacity: number, shards: number): void {
+	if (capacity < shards) { throw new RangeError('capacity must be greater than or equal to shards') }
+	if (!Number.isInteger(capacity)) { throw new RangeError('capacity must be an integer') }
+}
+
+/**
+ * Returns the capacity of a shard, spreading the remainder of the division over the first shards.
+ *
+ * @param capacity The capacity of the cache.
+ * @param shards The number of shards.
+ * @param index The index of the shard.
+ * @returns The capacity of the shard.
+ */
+function shardCapacity(capacity: number, shards: number, index: number): number {
+	return Math.floor(capacity / shards) + (index < capacity % shards ? 1 : 0);
+}
@@ -0,0 +1,44 @@
+/**
+ * Serializes a value to a string that is the same for every equal value, such as to use the arguments of a call as a cache key.
+ * Unlike `JSON.stringify()`, the keys of objects are sorted, and `undefined`, non-finite numbers, BigInts, Dates, Maps and Sets are kept apart.
+ * The entries of Maps and Sets are sorted as well, so their insertion order does not change the result.
+ *
+ * @param value The value to serialize.
+ * @returns The serialized value.
+ * @throws {TypeError} If the value is or contains a function, a symbol or a circular reference.
+ */
+export function stableSerialize(value: unknown): string {
+	return serialize(value, new Set());
+}
+
+/**
+ * Serializes a value that may be nested inside other values.
+ *
+ * @param value The value to serialize.
+ * @param ancestors The objects that contain the value, to detect circular references.
+ * @returns The serialized value.
+ */
+function serialize(value: unknown, ancestors: Set<object>): string {
+	if (typeof value === 'string') { return JSON.stringify(value) }
+	if (typeof value === 'bigint') { return `${String(value)}n` }
+	if (typeof value === 'symbol' || typeof value === 'function') { throw new TypeError(`Cannot serialize a ${typeof value}`) }
+	// Numbers, booleans, undefined and null
+	if (typeof value !== 'object' || value === null) { return String(value) }
+	if (ancestors.has(value)) { throw new TypeError('Cannot serialize a circular structure') }
+
+	ancestors.add(value);
+	try {
+		if (Array.isArray(value)) { return `[${value.map((item: unknown) => serialize(item, ancestors)).join(',')}]` }
+		if (value instanceof Date) { return `Date(${value.getTime()})` }
+		if (value instanceof Map) {
+			return `Map{${Array.from(value as Map<unknown, unknown>, ([key, item]) => `${serialize(key, ancestors)}:${serialize(item, ancestors)}`).sort().join(',')}}`;
+		}
+		if (value instanceof Set) { return `Set[${Array.from(value as Set<unknown>, (item) => serialize(item, ancestors)).sort().join(',')}]` }
+
+		const object = value as Record<string, unknown>;
+
+		return `{${Object.keys(object).sort().map((key) => `${JSON.stringify(key)}:${serialize(object[key], ancestors)}`).join(',')}}`;
+	} finally {
+		ancestors.delete(value);
+	}
+}
@@ -0,0 +1,334 @@
+import { toCacheStats, type CacheStats } from './cache-stats.js';
+import type { CacheEventMap, EvictingCache } from './evicting-cache.js';
+
+/** A minimal asynchronous key-value store used as the second tier of a {@link TieredCache}, such as Redis, IndexedDB or a file. */
+export type AsyncStore<K, V> = {
+	/**
+	 * Gets the value of a key.
+	 *
+	 * @param key The key.
+	 * @returns A promise for the value, or undefined if the key is not in the store.
+	 */
+	get(key: K): Promise<V | undefined>;
+
+	/**
+	 * Sets the value of a key.
+	 *
+	 * @param key The key.
+	 * @param value The value.
+	 * @returns A promise that resolves once the value has been stored.
+	 */
+	set(key: K, value: V): Promise<void>;
+
+	/**
+	 * Removes a key.
+	 *
+	 * @param key The key.
+	 * @returns A promise that resolves once the key has been removed.
+	 */
+	delete(key: K): Promise<void>;
+};
+
+/**
+ * How writes to a {@link TieredCache} reach its second tier.
+ *
+ * - `write-through`: every write is stored in both tiers before it completes.
+ * - `write-back`: writes are stored in the first tier and written to the second tier later, by `flush()` or on an interval.
+ */
+export type WriteMode = 'write-through' | 'write-back';
+
+/** Options used to configure a {@link TieredCache}. */
+export type TieredCacheOptions = {
+	/** How writes reach the second tier. Defaults to `write-through`. */
+	writeMode?: WriteMode;
+	/** How often pending writes are written to the second tier in `write-back` mode, in milliseconds. `0` only writes them on `flush()`. Defaults to 1000. */
+	flushInterval?: number;
+	/** Whether values evicted from the first tier to make room for other values are written to the second tier. Defaults to false. */
+	demoteEvictions?: boolean;
+	/** Called when a write to the second tier that was not awaited by a caller fails. */
+	onError?: (error: unknown) => void;
+};
+
+/** The statistics of a {@link TieredCache}. A hit in either tier counts as a hit, and a miss in both tiers counts as a miss. */
+export type TieredCacheStats = CacheStats & {
+	/** The statistics of the first tier. */
+	l1: CacheStats;
+	/** The statistics of the second tier, which is only read when the first tier misses. */
+	l2: CacheStats;
+};
+
+/** A simple in-memory {@link AsyncStore}, for tests and local development. */
+export class MemoryStore<K, V> implements AsyncStore<K, V> {
+	private readonly store: Map<K, V> = new Map();
+
+	/**
+	 * Gets the value of a key.
+	 *
+	 * @param key The key.
+	 * @returns A promise for the value, or undefined if the key is not in the store.
+	 */
+	get(key: K): Promise<V | undefined> {
+		return Promise.resolve(this.store.get(key));
+	}
+
+	/**
+	 * Sets the value of a key.
+	 *
+	 * @param key The key.
+	 * @param value The value.
+	 * @returns A promise that resolves once the value has been stored.
+	 */
+	set(key: K, value: V): Promise<void> {
+		this.store.set(key, value);
+
+		return Promise.resolve();
+	}
+
+	/**
+	 * Removes a key.
+	 *
+	 * @param key The key.
+	 * @returns A promise that resolves once the key has been removed.
+	 */
+	delete(key: K): Promise<void> {
+		this.store.delete(key);
+
+		return Promise.resolve();
+	}
+
+	/**
+	 * Gets the number of keys in the store.
+	 *
+	 * @readonly
+	 * @returns The number of keys in the store.
+	 */
+	get size(): number {
+		return this.store.size;
+	}
+}
+
+/**
+ * A two-tier cache with an {@link EvictingCache} in front of a slower {@link AsyncStore}.
+ * Reads that miss the first tier fall through to the second tier, and values found there are promoted into the first tier.
+ */
+export class TieredCache<K, V> {
+	private readonly l1: EvictingCache<K, V>;
+	private readonly l2: AsyncStore<K, V>;
+	private readonly writeMode: WriteMode;
+	private readonly onError: (error: unknown) => void;
+	/** Values written in `write-back` mode that have not been written to the second tier yet. */
+	private pending: Map<K, V> = new Map();
+	/** The pending writes taken by flushes that are still writing them, from which deleted keys are removed so that they are not retried. */
+	private readonly flushing: Set<Map<K, V>> = new Set();
+	private readonly loads: Map<K, Promise<V | undefined>> = new Map();
+	private readonly unsubscribe?: () => void;
+	private readonly timer?: ReturnType<typeof setInterval>;
+	private l1Hits = 0;
+	private l1Misses = 0;
+	private l2Hits = 0;
+	private l2Misses = 0;
+
+	/**
+	 * Creates a new tiered cache.
+	 *
+	 * @param l1 The in-memory first tier.
+	 * @param l2 The asynchronous second tier.
+	 * @param options Additional options for the cache.
+	 */
+	constructor(l1: EvictingCache<K, V>, l2: AsyncStore<K, V>, { writeMode = 'write-through', flushInterval = 1000, demoteEvictions = false, onError = () => {} }: TieredCacheOptions = {}) {
+		if (writeMode !== 'write-through' && writeMode !== 'write-back') { throw new RangeError(`Unknown write mode: ${String(writeMode)}`) }
+		if (!(flushInterval >= 0 && flushInterval < Infinity)) { throw new RangeError('flushInterval must be a finite number greater than or equal to 0') }
+
+		this.l1 = l1;
+		this.l2 = l2;
+		this.writeMode = writeMode;
+		this.onError = onError;
+
+		if (demoteEvictions) { this.unsubscribe = l1.on('evict', (event) => this.demote(event)) }
+		if (writeMode === 'write-back' && flushInterval > 0) {
+			this.timer = setInterval(() => { this.flush().catch(this.onError) }, flushInterval);
+			// Pending writes should never keep a Node.js process alive on their own
+			(this.timer as { unref?: () => void }).unref?.();
+		}
+	}
+
+	/**
+	 * Returns a promise for the value of the key, reading the second tier if it is not in the first tier.
+	 * Values found in the second tier are put into the first tier. Concurrent reads of the same key share a single read of the second tier.
+	 *
+	 * @param key The key.
+	 * @returns A promise for the value, or undefined if the key is in neither tier.
+	 */
+	get(key: K): Promise<V | undefined> {
+		const cached = this.l1.tryGet(key);
+		if (cached.found) {
+			this.l1Hits++;
+			return Promise.resolve(cached.value);
+		}
+
+		this.l1Misses++;
+		// A value evicted from the first tier before it was written back is still the latest value
+		if (this.pending.has(key)) {
+			this.l2Hits++;
+			return Promise.resolve(this.pending.get(key));
+		}
+
+		return this.load(key).then((loaded) => {
+			if (loaded === undefined) {
+				this.l2Misses++;
+			} else {
+				this.l2Hits++;
+			}
+
+			return loaded;
+		});
+	}
+
+	/**
+	 * Puts a value into the first tier and, depending on the write mode, into the second tier.
+	 *
+	 * @param key The key.
+	 * @param value The value.
+	 * @returns A promise that resolves once the value has been written to the second tier in `write-through` mode, or right away in `write-back` mode.
+	 */
+	set(key: K, value: V): Promise<void> {
+		this.loads.delete(key);
+		this.l1.put(key, value);
+		if (this.writeMode === 'write-through') { return this.l2.set(key, value) }
+
+		this.pending.set(key, value);
+
+		return Promise.resolve();
+	}
+
+	/**
+	 * Removes a key from both tiers, including any pending write of it.
+	 *
+	 * @param key The key.
+	 * @returns A promise that resolves once the key has been removed from the second tier.
+	 */
+	delete(key: K): Promise<void> {
+		this.loads.delete(key);
+		this.pending.delete(key);
+		for (const writes of this.flushing) { writes.delete(key) }
+		this.l1.delete(key);
+
+		return this.l2.delete(key);
+	}
+
+	/**
+	 * Writes the pending writes of `write-back` mode to the second tier.
+	 * Writes that fail are kept, unless the key has been written again or deleted since, and retried by the next flush.
+	 *
+	 * @returns A promise that resolves once every pending write has been written.
+	 */
+	async flush(): Promise<void> {
+		const pending = this.pending;
+		this.pending = new Map();
+		this.flushing.add(pending);
+
+		const writes = Array.from(pending);
+		const results = await Promise.allSettled(writes.map(([key, value]) => this.l2.set(key, value)));
+		this.flushing.delete(pending);
+
+		const errors: unknown[] = [];
+		for (let index = 0; index < writes.length; index++) {
+			const result = results[index]!;
+			if (result.status === 'rejected') {
+				errors.push(result.reason);
+				const [key, value] = writes[index]!;
+				if (pending.has(key) && !this.pending.has(key)) { this.pending.set(key, value) }
+			}
+		}
+
+		if (errors.length === 1) { throw errors[0] }
+		if (errors.length > 1) { throw new AggregateError(errors, 'Multiple writes to the second tier failed') }
+	}
+
+	/**
+	 * Stops the background writes and listening to evictions, then writes the pending writes.
+	 *
+	 * @returns A promise that resolves once every pending write has been written.
+	 */
+	close(): Promise<void> {
+		clearInterval(this.timer);
+		this.unsubscribe?.();
+
+		return this.flush();
+	}
+
+	/**
+	 * Gets the hit and miss statistics of the cache and of each tier.
+	 *
+	 * @returns The statistics.
+	 */
+	getStats(): TieredCacheStats {
+		const l1 = toCacheStats(this.l1Hits, this.l1Misses);
+		const l2 = toCacheStats(this.l2Hits, this.l2Misses);
+
+		return { ...toCacheStats(this.l1Hits + this.l2Hits, this.l2Misses), l1, l2 };
+	}
+
+	/** Resets the statistics of the cache to zero. */
+	resetStats(): void {
+		this.l1Hits = 0;
+		this.l1Misses = 0;
+		this.l2Hits = 0;
+		this.l2Misses = 0;
+	}
+
+	/**
+	 * Gets the number of writes that have not been written to the second tier yet.
+	 *
+	 * @readonly
+	 * @returns The number of pending writes.
+	 */
+	get pendingWrites(): number {
+		return this.pending.size;
+	}
+
+	/**
+	 * Gets the description of the object.
+	 *
+	 * @override
+	 * @returns The description of the object.
+	 */
+	get [Symbol.toStringTag](): string {
+		return 'TieredCache';
+	}
+
+	/**
+	 * Reads a key from the second tier and promotes it into the first tier, sharing a single read between concurrent callers.
+	 * The value is not promoted if the key is written or deleted before the read completes.
+	 *
+	 * @param key The key.
+	 * @returns A promise for the value, or undefined if the key is not in the second tier.
+	 */
+	private load(key: K): Promise<V | undefined> {
+		let pending = this.loads.get(key);
+		if (pending === undefined) {
+			pending = this.l2.get(key)
+				.then((value) => {
+					if (value !== undefined && this.loads.get(key) === pending) { this.l1.put(key, value) }
+
+					return value;
+				})
+				.finally(() => {
+					if (this.loads.get(key) === pending) { this.loads.delete(key) }
+				});
+			this.loads.set(key, pending);
+		}
+
+		return pending;
+	}
+
+	/**
+	 * Writes a value evicted from the first tier to the second tier.
+	 *
+	 * @param event The eviction event of the first tier.
+	 */
+	private demote({ key, value, reason }: CacheEventMap<K, V>['evict']): void {
+		// Expired values are stale, and pending values are written by the next flush
+		if (reason === 'evict' && !this.pending.has(key)) { this.l2.set(key, value).catch(this.onError) }
+	}
+}
@@ -0,0 +1,225 @@
+import { CacheCoherence, EvictingCache } from '../src/evicting-cache';
+import { describe, test, expect, afterEach, vi } from 'vitest';
+
+describe('CacheCoherence', () => {
+	const ports: MessagePort[] = [];
+
+	/**
+	 * Creates the ports of a channel between two threads, which are closed after the test.
+	 *
+	 * @returns The ports.
+	 */
+	function createPorts(): [MessagePort, MessagePort] {
+		const { port1, port2 } = new MessageChannel();
+		ports.push(port1, port2);
+
+		return [port1, port2];
+	}
+
+	/**
+	 * Waits for the next message of a port, after the listeners that were added before it.
+	 *
+	 * @param port The port.
+	 * @returns A promise that resolves once the message has been handled.
+	 */
+	function nextMessage(port: MessagePort): Promise<void> {
+		return new Promise((resolve) => port.addEventListener('message', () => resolve(), { once: true }));
+	}
+
+	afterEach(() => {
+		for (const port of ports.splice(0)) { port.close() }
+	});
+
+	test('mirrors deletes, clears and tag invalidations', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const main = new EvictingCache<string, number>(10);
+		const worker = new EvictingCache<string, number>(10);
+		new CacheCoherence(main, mainPort);
+		new CacheCoherence(worker, workerPort);
+		main.putAll([['a', 1], ['b', 2], ['c', 3]]);
+		worker.put('a', 1);
+		worker.put('b', 2, { tags: ['t'] });
+		worker.put('c', 3);
+
+		// Puts are not mirrored by default
+		expect(worker.has('d')).toBe(false);
+
+		let message = nextMessage(workerPort);
+		main.delete('a');
+		await message;
+		expect([...worker.keys()]).toEqual(['b', 'c']);
+
+		// The worker copy has the tag even though the main copy does not
+		message = nextMessage(workerPort);
+		main.invalidateTag('t');
+		await message;
+		expect([...worker.keys()]).toEqual(['c']);
+
+		message = nextMessage(mainPort);
+		worker.clear();
+		await message;
+		expect(main.size).toBe(0);
+	});
+
+	test('replicates puts with their expiry', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		try {
+			const [mainPort, workerPort] = createPorts();
+			const main = new EvictingCache<string, { name: string }>(10);
+			const worker = new EvictingCache<string, { name: string }>(10, { ttl: 1000 });
+			new CacheCoherence(main, mainPort, { replicatePuts: true });
+			new CacheCoherence(worker, workerPort);
+
+			const message = nextMessage(workerPort);
+			main.put('a', { name: 'a' }, { ttl: 500 });
+			main.put('b', { name: 'b' });
+			await message;
+			await nextMessage(workerPort);
+			expect(worker.peek('a')).toEqual({ name: 'a' });
+
+			vi.advanceTimersByTime(500);
+			expect(worker.has('a')).toBe(false);
+			// The value never expires in the main copy, so it does not in the worker copy either
+			vi.advanceTimersByTime(1000);
+			expect(worker.peek('b')).toEqual({ name: 'b' });
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('replicates puts with their tags', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const main = new EvictingCache<string, number>(10);
+		const worker = new EvictingCache<string, number>(10);
+		new CacheCoherence(main, mainPort, { replicatePuts: true });
+		new CacheCoherence(worker, workerPort);
+
+		let message = nextMessage(workerPort);
+		main.put('a', 1, { tags: ['user:1'] });
+		await message;
+		expect(worker.peek('a')).toBe(1);
+
+		// The invalidation starts in the thread that received the put, and both copies drop the entry
+		message = nextMessage(mainPort);
+		worker.invalidateTag('user:1');
+		await message;
+		expect(worker.has('a')).toBe(false);
+		expect(main.has('a')).toBe(false);
+	});
+
+	test('skips values that expired while they were delivered', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const worker = new EvictingCache<string, number>(10);
+		new CacheCoherence(worker, workerPort);
+
+		const message = nextMessage(workerPort);
+		mainPort.postMessage({ namespace: 'evicting-cache', op: 'set', key: 'a', value: 1, expiresAt: Date.now() - 1 });
+		await message;
+		expect(worker.size).toBe(0);
+	});
+
+	test('changes received from other threads are not posted back', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const main = new EvictingCache<string, number>(10);
+		const worker = new EvictingCache<string, number>(10);
+		new CacheCoherence(main, mainPort, { replicatePuts: true });
+		new CacheCoherence(worker, workerPort, { replicatePuts: true });
+		const postMessage = vi.spyOn(workerPort, 'postMessage');
+
+		const message = nextMessage(workerPort);
+		main.put('a', 1);
+		await message;
+		expect(worker.get('a')).toBe(1);
+		expect(postMessage).not.toHaveBeenCalled();
+
+		// Statistics are kept per thread
+		expect(main.getStats()).toMatchObject({ hits: 0, sets: 1 });
+		expect(worker.getStats()).toMatchObject({ hits: 1, sets: 1 });
+	});
+
+	test('ignores the messages of other namespaces', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const users = new EvictingCache<string, number>(10);
+		const sessions = new EvictingCache<string, number>(10);
+		users.put('a', 1);
+		sessions.put('a', 1);
+		new CacheCoherence(users, workerPort, { namespace: 'users' });
+		new CacheCoherence(sessions, workerPort, { namespace: 'sessions' });
+
+		let message = nextMessage(workerPort);
+		mainPort.postMessage({ namespace: 'users', op: 'delete', key: 'a' });
+		await message;
+		expect(users.has('a')).toBe(false);
+		expect(sessions.has('a')).toBe(true);
+
+		message = nextMessage(workerPort);
+		mainPort.postMessage('unrelated');
+		mainPort.postMessage(null);
+		await message;
+		expect(sessions.has('a')).toBe(true);
+	});
+
+	test('reports changes that cannot be posted or applied', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const onError = vi.fn();
+		const main = new EvictingCache<string, () => void>(10);
+		const worker = new EvictingCache<string, number>(10, { dispose: () => { throw new Error('dispose') } });
+		new CacheCoherence(main, mainPort, { replicatePuts: true, onError });
+		new CacheCoherence(worker, workerPort, { onError });
+
+		// Functions cannot be cloned
+		main.put('a', () => {});
+		expect(onError).toHaveBeenCalledTimes(1);
+
+		worker.put('b', 2);
+		const message = nextMessage(workerPort);
+		mainPort.postMessage({ namespace: 'evicting-cache', op: 'delete', key: 'b' });
+		await message;
+		expect(onError).toHaveBeenLastCalledWith(new Error('dispose'));
+		expect(worker.has('b')).toBe(false);
+	});
+
+	test('errors are ignored without onError', () => {
+		const [mainPort] = createPorts();
+		const main = new EvictingCache<string, () => void>(10);
+		new CacheCoherence(main, mainPort, { replicatePuts: true });
+		expect(() => main.put('a', () => {})).not.toThrow();
+	});
+
+	test('close stops mirroring changes', async () => {
+		const [mainPort, workerPort] = createPorts();
+		const main = new EvictingCache<string, number>(10);
+		const worker = new EvictingCache<string, number>(10);
+		const postMessage = vi.spyOn(mainPort, 'postMessage');
+		new CacheCoherence(main, mainPort).close();
+		new CacheCoherence(worker, workerPort).close();
+		worker.put('a', 1);
+
+		main.delete('a');
+		expect(postMessage).not.toHaveBeenCalled();
+
+		const message = nextMessage(workerPort);
+		mainPort.postMessage({ namespace: 'evicting-cache', op: 'delete', key: 'a' });
+		await message;
+		expect(worker.has('a')).toBe(true);
+	});
+
+	test('works with a BroadcastChannel', async () => {
+		const main = new BroadcastChannel('cache');
+		const worker = new BroadcastChannel('cache');
+		try {
+			const mainCache = new EvictingCache<string, number>(10);
+			const workerCache = new EvictingCache<string, number>(10);
+			new CacheCoherence(mainCache, main, { replicatePuts: true });
+			new CacheCoherence(workerCache, worker);
+
+			const message = new Promise((resolve) => worker.addEventListener('message', resolve, { once: true }));
+			mainCache.put('a', 1);
+			await message;
+			expect(workerCache.get('a')).toBe(1);
+		} finally {
+			main.close();
+			worker.close();
+		}
+	});
+});
@@ -0,0 +1,73 @@
+import { identityCodec, jsonCodec } from '../src/codecs';
+import { describe, test, expect, vi } from 'vitest';
+
+/**
+ * Encodes a value, sends it through JSON and decodes it again.
+ *
+ * @param value The value.
+ * @returns The decoded value.
+ */
+function roundTrip<T>(value: T): T {
+	return jsonCodec.decode<T>(JSON.parse(JSON.stringify(jsonCodec.encode(value))));
+}
+
+describe('identityCodec', () => {
+	test('leaves values as they are', () => {
+		const value = { a: 1 };
+		expect(identityCodec.encode(value)).toBe(value);
+		expect(identityCodec.decode(value)).toBe(value);
+	});
+});
+
+describe('jsonCodec', () => {
+	test('leaves JSON values as they are', () => {
+		const value = { string: 'a', number: 1, boolean: true, nil: null, array: [1, 'b'], nested: { c: [{}] } };
+		expect(jsonCodec.encode(value)).toEqual(value);
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	test('round trips values that JSON cannot represent', () => {
+		expect(roundTrip(new Date('2025-01-01T00:00:00.000Z'))).toEqual(new Date('2025-01-01T00:00:00.000Z'));
+		expect(roundTrip(new Date(NaN)).getTime()).toBeNaN();
+		expect(roundTrip(new Map<unknown, unknown>([['a', 1], [{ id: 1 }, new Set([2n])]]))).toEqual(new Map<unknown, unknown>([['a', 1], [{ id: 1 }, new Set([2n])]]));
+		expect(roundTrip(new Set(['a', new Date(0)]))).toEqual(new Set(['a', new Date(0)]));
+		expect(roundTrip(12345678901234567890n)).toBe(12345678901234567890n);
+		expect(roundTrip(NaN)).toBeNaN();
+		expect(roundTrip(-Infinity)).toBe(-Infinity);
+		expect(roundTrip(undefined)).toBeUndefined();
+		expect(roundTrip({ a: undefined, b: [undefined] })).toEqual({ a: undefined, b: [undefined] });
+		expect(roundTrip(new Uint8Array([0, 1, 254, 255]))).toEqual(new Uint8Array([0, 1, 254, 255]));
+	});
+
+	test('round trips Buffers', () => {
+		const buffer = roundTrip(Buffer.from('hello'));
+		expect(Buffer.isBuffer(buffer)).toBe(true);
+		expect(buffer.toString()).toBe('hello');
+	});
+
+	test('decodes Buffers as Uint8Arrays without Buffer support', async () => {
+		const encoded = jsonCodec.encode(Buffer.from('hello'));
+		vi.stubGlobal('Buffer', undefined);
+		vi.resetModules();
+		try {
+			const { jsonCodec: browserCodec } = await import('../src/codecs');
+			const bytes = browserCodec.decode<Uint8Array>(encoded);
+			expect(bytes).toBeInstanceOf(Uint8Array);
+			expect(new TextDecoder().decode(bytes)).toBe('hello');
+			expect(browserCodec.encode(new Uint8Array([1]))).toEqual({ $type: 'Uint8Array', value: 'AQ==' });
+		} finally {
+			vi.unstubAllGlobals();
+		}
+	});
+
+	test('does not confuse objects with a $type property for encoded values', () => {
+		const value = { $type: 'Date', value: 0 };
+		expect(roundTrip(value)).toEqual(value);
+	});
+
+	test('rejects values it cannot encode or decode', () => {
+		expect(() => jsonCodec.encode(Symbol('a'))).toThrow(TypeError);
+		expect(() => jsonCodec.encode(() => {})).toThrow(TypeError);
+		expect(() => jsonCodec.decode({ $type: 'Unknown' })).toThrow(TypeError);
+	});
+});
@@ -0,0 +1,131 @@
+import { EvictingCache } from '../src/evicting-cache';
+import { bench, describe } from 'vitest';
+
+/**
+ * The previous LRU core, which kept the order in the insertion order of a `Map`,
+ * deleting and re-adding a key on every hit and every overwrite.
+ */
+class MapReinsertionCache<K, V> {
+	private readonly map: Map<K, V> = new Map();
+	private readonly capacity: number;
+
+	/**
+	 * Creates a new cache.
+	 *
+	 * @param capacity The maximum number of entries.
+	 */
+	constructor(capacity: number) {
+		this.capacity = capacity;
+	}
+
+	/**
+	 * Returns the value of a key, moving it to the end.
+	 *
+	 * @param key The key.
+	 * @returns The value, or null if the key is not in the cache.
+	 */
+	get(key: K): V | null {
+		if (!this.map.has(key)) { return null }
+
+		const value = this.map.get(key)!;
+		this.map.delete(key);
+		this.map.set(key, value);
+
+		return value;
+	}
+
+	/**
+	 * Puts a value, evicting the least recently used entry if the cache is full.
+	 *
+	 * @param key The key.
+	 * @param value The value.
+	 */
+	put(key: K, value: V): void {
+		if (this.map.has(key)) {
+			this.map.delete(key);
+		} else if (this.map.size >= this.capacity) {
+			this.map.delete(this.map.keys().next().value!);
+		}
+		this.map.set(key, value);
+	}
+}
+
+const capacity = 100_000;
+const operations = 100_000;
+
+/**
+ * Returns keys drawn from a skewed distribution, so that a few keys are read far more often than the rest.
+ *
+ * @param count The number of keys.
+ * @param range The number of distinct keys.
+ * @returns The keys.
+ */
+function skewedKeys(count: number, range: number): number[] {
+	let seed = 42;
+
+	return Array.from({ length: count }, () => {
+		// A small linear congruential generator keeps every run identical
+		seed = (Math.imul(seed, 1_664_525) + 1_013_904_223) >>> 0;
+
+		return Math.floor(range * (seed / 2 ** 32) ** 3);
+	});
+}
+
+const hitKeys = skewedKeys(operations, capacity);
+const missKeys = skewedKeys(operations, capacity * 4);
+
+/**
+ * Returns a cache that is filled to its capacity.
+ *
+ * @param create Creates the cache.
+ * @returns The filled cache.
+ */
+function filled<C extends { put(key: number, value: number): void }>(create: () => C): C {
+	const cache = create();
+	for (let key = 0; key < capacity; key++) { cache.put(key, key) }
+
+	return cache;
+}
+
+describe('get hits', () => {
+	const linked = filled(() => new EvictingCache<number, number>(capacity));
+	const reinserted = filled(() => new MapReinsertionCache<number, number>(capacity));
+
+	bench('linked list', () => {
+		for (const key of hitKeys) { linked.get(key) }
+	});
+
+	bench('map re-insertion', () => {
+		for (const key of hitKeys) { reinserted.get(key) }
+	});
+});
+
+describe('overwrites', () => {
+	const linked = filled(() => new EvictingCache<number, number>(capacity));
+	const reinserted = filled(() => new MapReinsertionCache<number, number>(capacity));
+
+	bench('linked list', () => {
+		for (const key of hitKeys) { linked.put(key, key) }
+	});
+
+	bench('map re-insertion', () => {
+		for (const key of hitKeys) { reinserted.put(key, key) }
+	});
+});
+
+describe('mixed reads and evictions', () => {
+	const linked = filled(() => new EvictingCache<number, number>(capacity));
+	const reinserted = filled(() => new MapReinsertionCache<number, number>(capacity));
+
+	bench('linked list', () => {
+		for (const key of missKeys) {
+			if (linked.get(key) === null) { linked.put(key, key) }
+		}
+	});
+
+	bench('map re-insertion', () => {
+		for (const key of missKeys) {
+			if (reinserted.get(key) === null) { reinserted.put(key, key) }
+		}
+	});
+});
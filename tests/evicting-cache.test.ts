@@ -1,5 +1,5 @@
-import { EvictingCache } from '../src/evicting-cache';
-import { describe, test, expect, beforeEach } from 'vitest';
+import { CacheEvent, EvictingCache, jsonCodec, notFound, stableSerialize, type CacheEventMap, type CacheSnapshot, type CacheTransaction, type DisposeReason, type EvictionPolicyName } from '../src/evicting-cache';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
 
 describe('EvictingCache', () => {
 	test('constructor', () => {
@@ -16,6 +16,12 @@ describe('EvictingCache', () => {
 		expect(cache.toString()).toBe('[object EvictingCache]');
 	});
 
+	test('constructor with policy', () => {
+		expect(new EvictingCache<string, number>().policy).toBe('lru');
+		expect(new EvictingCache<string, number>(3, { policy: 'lfu' }).policy).toBe('lfu');
+		expect(() => new EvictingCache<string, number>(3, { policy: 'random' as EvictionPolicyName })).toThrow(RangeError);
+	});
+
 	test('constructor with invalid capacity', () => {
 		expect(() => new EvictingCache<string, number>(-1)).toThrow(RangeError);
 		expect(() => new EvictingCache<string, number>(0)).toThrow(RangeError);
@@ -93,6 +99,50 @@ describe('EvictingCache', () => {
 		expect(cache.capacity).toBe(3);
 	});
 
+	describe('resize', () => {
+		test('shrinking evicts LRU entries down to the new capacity', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<string, number>(4, { dispose });
+			cache.putAll([['a', 1], ['b', 2], ['c', 3], ['d', 4]]);
+			cache.get('a');
+
+			expect(cache.resize(2)).toBe(2);
+			expect(cache.capacity).toBe(2);
+			expect([...cache.keys()]).toEqual(['d', 'a']);
+			expect(dispose.mock.calls).toEqual([[2, 'b', 'evict'], [3, 'c', 'evict']]);
+
+			cache.put('e', 5);
+			expect([...cache.keys()]).toEqual(['a', 'e']);
+		});
+
+		test('growing keeps every entry', () => {
+			const cache = new EvictingCache<string, number>(2);
+			cache.putAll([['a', 1], ['b', 2]]);
+
+			expect(cache.resize(3)).toBe(0);
+			cache.put('c', 3);
+			expect([...cache.entries()]).toEqual([['a', 1], ['b', 2], ['c', 3]]);
+			expect(cache.getStats()).toMatchObject({ evictions: { evict: 0 }, capacity: 3 });
+		});
+
+		test('the capacity setter resizes the cache', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.putAll([['a', 1], ['b', 2], ['c', 3]]);
+			cache.capacity = 1;
+			expect([...cache.keys()]).toEqual(['c']);
+		});
+
+		test('invalid capacities are rejected without changing the cache', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.putAll([['a', 1], ['b', 2]]);
+			expect(() => cache.resize(0)).toThrow('capacity must be greater than 0');
+			expect(() => cache.resize(1.5)).toThrow('capacity must be an integer');
+			expect(() => { cache.capacity = Infinity }).toThrow(RangeError);
+			expect(cache.capacity).toBe(3);
+			expect(cache.size).toBe(2);
+		});
+	});
+
 	test('size', () => {
 		const cache = new EvictingCache<Set<string>, { active: boolean }>(3);
 		const set1 = new Set(['a']);
@@ -404,6 +454,137 @@ describe('EvictingCache', () => {
 			const entries = [...cache.entries()];
 			expect(entries).toEqual([[2, { text: 'b' }], [3, { text: 'c' }], [1, { text: 'a' }]]);
 		});
+
+		test('reverse iterators return the most recently used entries first', () => {
+			cache.get(1);
+			expect([...cache.keys({ reverse: true })]).toEqual([1, 3, 2]);
+			expect([...cache.values({ reverse: true })]).toEqual([{ text: 'a' }, { text: 'c' }, { text: 'b' }]);
+			expect([...cache.entries({ reverse: true })]).toEqual([[1, { text: 'a' }], [3, { text: 'c' }], [2, { text: 'b' }]]);
+		});
+
+		test('reverse iterators skip expired entries', () => {
+			vi.useFakeTimers();
+			try {
+				cache.put(4, { text: 'd' }, { ttl: 1000 });
+				vi.advanceTimersByTime(1000);
+				expect([...cache.keys({ reverse: true })]).toEqual([3, 2]);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('live iterators visit entries that are read while iterating again', () => {
+			const visited: number[] = [];
+			for (const key of cache.keys()) {
+				visited.push(key);
+				if (key === 1) { cache.get(2) }
+			}
+
+			// 2 was moved behind 3
+			expect(visited).toEqual([1, 3, 2]);
+		});
+
+		test.each(['lru', 'slru', 'lfu', 'tinylfu'] as const)('live %s iterators reach every entry when each is read or pinned while iterating', (policy) => {
+			const reading = new EvictingCache<number, number>(10, { policy });
+			for (let key = 0; key < 10; key++) { reading.put(key, key) }
+			const visited = new Set<number>();
+			for (const key of reading.keys()) {
+				// Reading an entry moves it, so that it is visited again
+				if (visited.has(key)) { continue }
+				visited.add(key);
+				reading.get(key);
+			}
+			expect(visited.size).toBe(10);
+
+			const pinning = new EvictingCache<number, number>(10, { policy });
+			for (let key = 0; key < 10; key++) { pinning.put(key, key) }
+			const pinned: number[] = [];
+			for (const key of pinning.keys()) {
+				pinned.push(key);
+				pinning.pin(key);
+			}
+			// Pinned entries come last, so each is visited again
+			expect(pinned).toHaveLength(20);
+			expect(new Set(pinned).size).toBe(10);
+
+			const reversed = new Set<number>();
+			for (const key of reading.keys({ reverse: true })) {
+				if (reversed.has(key)) { continue }
+				reversed.add(key);
+				reading.get(key);
+			}
+			expect(reversed.size).toBe(10);
+		});
+
+		test.each(['lru', 'slru', 'lfu'] as const)('live %s iterators continue after the current entry is deleted and the next one is read or pinned', (policy) => {
+			for (const move of ['get', 'pin'] as const) {
+				const moving = new EvictingCache<string, number>(4, { policy });
+				moving.putAll([['a', 1], ['b', 2], ['c', 3], ['d', 4]]);
+				const visited: string[] = [];
+				for (const key of moving.keys()) {
+					visited.push(key);
+					if (key === 'a') {
+						moving.delete('a');
+						moving[move]('b');
+					}
+				}
+
+				// As with a Map, 'b' is visited again after it has moved
+				expect(new Set(visited)).toEqual(new Set(['a', 'b', 'c', 'd']));
+				expect(visited.slice(0, 3)).toEqual(['a', 'c', 'd']);
+			}
+		});
+
+		test('snapshot iterators are unaffected by changes while iterating', () => {
+			const visited: number[] = [];
+			for (const key of cache.keys({ snapshot: true })) {
+				visited.push(key);
+				cache.get(1);
+				cache.put(4, { text: 'd' });
+				cache.delete(3);
+			}
+			expect(visited).toEqual([1, 2, 3]);
+
+			expect([...cache.entries({ snapshot: true, reverse: true })]).toEqual([[4, { text: 'd' }], [1, { text: 'a' }]]);
+
+			// Putting a key replaces its entry, so the snapshot keeps the previous value
+			const values: string[] = [];
+			for (const { text } of cache.values({ snapshot: true })) {
+				values.push(text);
+				cache.put(4, { text: 'e' });
+			}
+			expect(values).toEqual(['a', 'd']);
+		});
+
+		test('page lists the entries a page at a time', () => {
+			cache.put(4, { text: 'd' });
+			const first = cache.page({ limit: 2 });
+			expect(first.entries).toEqual([[2, { text: 'b' }], [3, { text: 'c' }]]);
+
+			const second = cache.page({ limit: 2, cursor: first.cursor });
+			expect(second.entries).toEqual([[4, { text: 'd' }]]);
+			expect(second.cursor).toBeUndefined();
+
+			const reversed = cache.page({ limit: 3, reverse: true });
+			expect(reversed.entries.map(([key]) => key)).toEqual([4, 3, 2]);
+			// The last page can be empty when the entries divide evenly into pages
+			expect(cache.page({ limit: 3, cursor: reversed.cursor })).toEqual({ entries: [] });
+		});
+
+		test('page cursors continue over the live entries unless they are snapshots', () => {
+			const live = cache.page({ limit: 1 });
+			const snapshot = cache.page({ limit: 1, snapshot: true });
+			cache.delete(2);
+
+			expect(cache.page({ limit: 5, cursor: live.cursor }).entries.map(([key]) => key)).toEqual([3]);
+			expect(cache.page({ limit: 5, cursor: snapshot.cursor }).entries.map(([key]) => key)).toEqual([2, 3]);
+		});
+
+		test('page rejects invalid limits', () => {
+			expect(() => cache.page({ limit: 0 })).toThrow(RangeError);
+			expect(() => cache.page({ limit: 1.5 })).toThrow(RangeError);
+			expect(() => cache.page({ limit: Infinity })).toThrow(RangeError);
+		});
 	});
 
 	describe('delete', () => {
@@ -720,6 +901,73 @@ describe('EvictingCache', () => {
 			expect(stats.hits).toBe(0);
 			expect(stats.misses).toBe(1);
 		});
+
+		test('counts sets, deletes and evictions by reason', () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, number>(2);
+				cache.put('a', 1, { ttl: 100 });
+				cache.put('b', 2);
+				cache.put('c', 3); // evicts 'a'
+				cache.put('d', 4, { ttl: 100 }); // evicts 'b'
+				cache.delete('c');
+				cache.delete('missing');
+				vi.advanceTimersByTime(100);
+				cache.get('d'); // expires 'd'
+
+				expect(cache.getStats()).toMatchObject({ sets: 4, deletes: 1, evictions: { evict: 2, expire: 1 }, size: 0, capacity: 2 });
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('counts loads and their latency', async () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, number>(3);
+				cache.getOrPut('a', () => {
+					vi.advanceTimersByTime(10);
+					return 1;
+				});
+				expect(() => cache.getOrPut('b', () => { throw new Error('failed') })).toThrow('failed');
+
+				const loaded = cache.getOrPutAsync('c', () => new Promise((resolve) => setTimeout(() => resolve(3), 30)));
+				await vi.advanceTimersByTimeAsync(30);
+				await loaded;
+				const failed = cache.getOrPutAsync('d', () => Promise.reject(new Error('failed')));
+				await expect(failed).rejects.toThrow('failed');
+
+				expect(cache.getStats().loads).toEqual({ successes: 2, failures: 2, totalTime: 40, averageTime: 10 });
+				expect(cache.getStats()).toMatchObject({ size: 2, capacity: 3 });
+
+				cache.resetStats();
+				expect(cache.getStats().loads).toEqual({ successes: 0, failures: 0, totalTime: 0, averageTime: 0 });
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('recentHitRate covers the most recent lookups', () => {
+			expect(() => new EvictingCache(2, { statsWindow: 0 })).toThrow(RangeError);
+			expect(() => new EvictingCache(2, { statsWindow: 1.5 })).toThrow(RangeError);
+
+			const cache = new EvictingCache<string, number>(2, { statsWindow: 4 });
+			expect(cache.getStats().recentHitRate).toBe(0);
+
+			cache.put('a', 1);
+			for (let i = 0; i < 4; i++) { cache.get('missing') }
+			expect(cache.getStats().recentHitRate).toBe(0);
+
+			cache.get('a');
+			cache.get('a');
+			cache.get('a');
+			expect(cache.getStats().recentHitRate).toBe(0.75);
+			expect(cache.getStats().hitRate).toBeCloseTo(3 / 7);
+
+			cache.resetStats();
+			cache.get('a');
+			expect(cache.getStats().recentHitRate).toBe(1);
+		});
 	});
 
 	describe('getOrPut error handling', () => {
@@ -754,4 +1002,2182 @@ describe('EvictingCache', () => {
 			expect(stats.misses).toBe(1); // The get() call still happens
 		});
 	});
+
+	describe('ttl', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		test('constructor with invalid ttl', () => {
+			expect(() => new EvictingCache<string, number>(3, { ttl: -1 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { ttl: Infinity })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { ttl: NaN })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { purgeInterval: -1 })).toThrow(RangeError);
+		});
+
+		test('put with invalid ttl', () => {
+			const cache = new EvictingCache<string, number>(3);
+			expect(() => cache.put('a', 1, { ttl: -1 })).toThrow(RangeError);
+			expect(cache.has('a')).toBe(false);
+		});
+
+		test('entries expire after the default ttl', () => {
+			const cache = new EvictingCache<string, number>(3, { ttl: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(999);
+			expect(cache.get('a')).toBe(1);
+			vi.advanceTimersByTime(1);
+			expect(cache.get('a')).toBe(null);
+			expect(cache.getStats().misses).toBe(1);
+		});
+
+		test('per-call ttl overrides the default ttl', () => {
+			const cache = new EvictingCache<string, number>(3, { ttl: 1000 });
+			cache.put('a', 1, { ttl: 5000 });
+			cache.put('b', 2, { ttl: 0 }); // never expires
+			cache.put('c', 3);
+			vi.advanceTimersByTime(1000);
+			expect(cache.has('a')).toBe(true);
+			expect(cache.has('b')).toBe(true);
+			expect(cache.has('c')).toBe(false);
+			vi.advanceTimersByTime(4000);
+			expect(cache.has('a')).toBe(false);
+			expect(cache.has('b')).toBe(true);
+		});
+
+		test('putting an existing key resets its ttl', () => {
+			const cache = new EvictingCache<string, number>(3, { ttl: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(800);
+			cache.put('a', 2);
+			vi.advanceTimersByTime(800);
+			expect(cache.get('a')).toBe(2);
+		});
+
+		test('expired entries are treated as absent', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.put('a', 1, { ttl: 100 });
+			cache.put('b', 2);
+			vi.advanceTimersByTime(100);
+			expect(cache.peek('a')).toBe(null);
+			expect(cache.has('a')).toBe(false);
+			expect(cache.size).toBe(1);
+			expect([...cache.keys()]).toEqual(['b']);
+			expect([...cache.values()]).toEqual([2]);
+			expect([...cache]).toEqual([['b', 2]]);
+			expect(cache.getAll(['a', 'b'])).toEqual(new Map([['b', 2]]));
+		});
+
+		test('iterators and size skip expired entries that have not been removed', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.putAll([['a', 1], ['b', 2]], { ttl: 100 });
+			cache.put('c', 3);
+			vi.advanceTimersByTime(100);
+			expect(cache.size).toBe(1);
+
+			const entries: [string, number][] = [];
+			cache.forEach((value, key) => entries.push([key, value]));
+			expect(entries).toEqual([['c', 3]]);
+		});
+
+		test('getOrPut replaces an expired entry', () => {
+			const cache = new EvictingCache<string, number>(3);
+			expect(cache.getOrPut('a', () => 1, { ttl: 100 })).toBe(1);
+			expect(cache.getOrPut('a', () => 2, { ttl: 100 })).toBe(1);
+			vi.advanceTimersByTime(100);
+			expect(cache.getOrPut('a', () => 3)).toBe(3);
+			vi.advanceTimersByTime(10_000);
+			expect(cache.get('a')).toBe(3);
+		});
+
+		test('purgeStale removes expired entries', () => {
+			const cache = new EvictingCache<string, number>(3);
+			expect(cache.purgeStale()).toBe(0);
+			cache.put('a', 1, { ttl: 100 });
+			cache.put('b', 2, { ttl: 200 });
+			cache.put('c', 3);
+			vi.advanceTimersByTime(150);
+			expect(cache.purgeStale()).toBe(1);
+			expect([...cache.keys()]).toEqual(['b', 'c']);
+		});
+
+		test('clear removes expiring entries', () => {
+			const cache = new EvictingCache<string, number>(3, { ttl: 100 });
+			cache.put('a', 1);
+			cache.clear();
+			expect(cache.size).toBe(0);
+			expect(cache.purgeStale()).toBe(0);
+		});
+
+		test('purgeInterval removes expired entries in the background', () => {
+			const cache = new EvictingCache<string, number>(3, { ttl: 100, purgeInterval: 50 });
+			const purgeStale = vi.spyOn(cache, 'purgeStale');
+			cache.put('a', 1);
+			vi.advanceTimersByTime(50);
+			expect(purgeStale).toHaveReturnedWith(0);
+			vi.advanceTimersByTime(50);
+			expect(purgeStale).toHaveLastReturnedWith(1);
+		});
+
+		test('errors thrown during the background purge are passed to onError', () => {
+			const onError = vi.fn();
+			const dispose = vi.fn(() => { throw new Error('dispose failed') });
+			const cache = new EvictingCache<string, number>(3, { ttl: 100, purgeInterval: 50, dispose, onError });
+			cache.put('a', 1);
+			cache.put('b', 2);
+			vi.advanceTimersByTime(100);
+			expect(onError).toHaveBeenCalledWith(expect.any(AggregateError));
+			expect(cache.size).toBe(0);
+
+			// Without onError, the error is ignored and the sweep keeps running
+			const ignoring = new EvictingCache<string, number>(3, { ttl: 100, purgeInterval: 50, dispose });
+			ignoring.put('a', 1);
+			expect(() => vi.advanceTimersByTime(100)).not.toThrow();
+			expect(ignoring.size).toBe(0);
+		});
+
+		test('background purge stops once the cache is garbage collected', () => {
+			vi.stubGlobal('WeakRef', class { deref() { return undefined } });
+			const clearInterval = vi.spyOn(globalThis, 'clearInterval');
+			try {
+				new EvictingCache<string, number>(3, { ttl: 100, purgeInterval: 50 });
+				vi.advanceTimersByTime(50);
+				expect(clearInterval).toHaveBeenCalledTimes(1);
+			} finally {
+				vi.unstubAllGlobals();
+				clearInterval.mockRestore();
+			}
+		});
+	});
+
+	describe('maxSize', () => {
+		const sizeCalculation = (value: string) => value.length;
+
+		test('constructor with invalid maxSize', () => {
+			expect(() => new EvictingCache<string, string>(3, { maxSize: -1, sizeCalculation })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, string>(3, { maxSize: Infinity, sizeCalculation })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, string>(3, { maxSize: 10 })).toThrow(TypeError);
+		});
+
+		test('defaults to no size limit', () => {
+			const cache = new EvictingCache<string, string>(3);
+			cache.put('a', 'value');
+			expect(cache.maxSize).toBe(0);
+			expect(cache.calculatedSize).toBe(0);
+		});
+
+		test('tracks the calculated size', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 100, sizeCalculation });
+			expect(cache.maxSize).toBe(100);
+			cache.put('a', 'aaa');
+			cache.put('b', 'bb');
+			expect(cache.calculatedSize).toBe(5);
+			cache.put('a', 'a'); // Overwriting replaces the size of the old value
+			expect(cache.calculatedSize).toBe(3);
+			cache.delete('b');
+			expect(cache.calculatedSize).toBe(1);
+			cache.clear();
+			expect(cache.calculatedSize).toBe(0);
+		});
+
+		test('evicts least recently used entries until the new entry fits', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 10, sizeCalculation });
+			cache.put('a', 'aaaa');
+			cache.put('b', 'bbb');
+			cache.put('c', 'ccc'); // LRU order: a, b, c
+			cache.get('a'); // LRU order: b, c, a
+			cache.put('d', 'dddddd'); // Evicts b and c
+			expect([...cache.keys()]).toEqual(['a', 'd']);
+			expect(cache.calculatedSize).toBe(10);
+		});
+
+		test('capacity still limits the number of entries', () => {
+			const cache = new EvictingCache<string, string>(2, { maxSize: 100, sizeCalculation });
+			cache.putAll([['a', 'a'], ['b', 'b'], ['c', 'c']]);
+			expect([...cache.keys()]).toEqual(['b', 'c']);
+			expect(cache.calculatedSize).toBe(2);
+		});
+
+		test('rejects entries larger than maxSize without modifying the cache', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 5, sizeCalculation });
+			cache.put('a', 'aaa');
+			expect(() => cache.put('b', 'bbbbbb')).toThrow(RangeError);
+			expect(() => cache.put('a', 'aaaaaa')).toThrow(RangeError);
+			expect(() => cache.getOrPut('c', () => 'cccccc')).toThrow(RangeError);
+			expect([...cache.entries()]).toEqual([['a', 'aaa']]);
+			expect(cache.calculatedSize).toBe(3);
+		});
+
+		test('rejects invalid sizes', () => {
+			const cache = new EvictingCache<string, number>(10, { maxSize: 5, sizeCalculation: (value) => value });
+			expect(() => cache.put('a', -1)).toThrow(RangeError);
+			expect(() => cache.put('a', NaN)).toThrow(RangeError);
+			expect(cache.size).toBe(0);
+		});
+
+		test('sizeCalculation receives the value and key', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 100, sizeCalculation: (value, key) => value.length + key.length });
+			cache.put('key', 'value');
+			expect(cache.calculatedSize).toBe(8);
+		});
+
+		test('expired entries release their size', () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, string>(10, { maxSize: 10, sizeCalculation, ttl: 100 });
+				cache.put('a', 'aaaa');
+				cache.put('b', 'bbbb', { ttl: 0 });
+				vi.advanceTimersByTime(100);
+				expect(cache.purgeStale()).toBe(1);
+				expect(cache.calculatedSize).toBe(4);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+	});
+
+	describe('dispose', () => {
+		let disposed: [number, string, DisposeReason][];
+		let cache: EvictingCache<string, number>;
+		beforeEach(() => {
+			disposed = [];
+			cache = new EvictingCache<string, number>(3, { dispose: (value, key, reason) => disposed.push([value, key, reason]) });
+			cache.putAll([['a', 1], ['b', 2], ['c', 3]]);
+		});
+
+		test('is called when capacity is exceeded', () => {
+			cache.put('d', 4);
+			expect(disposed).toEqual([[1, 'a', 'evict']]);
+		});
+
+		test('is called by evict', () => {
+			cache.evict();
+			expect(disposed).toEqual([[1, 'a', 'evict']]);
+		});
+
+		test('is called by delete and deleteAll', () => {
+			cache.delete('a');
+			cache.deleteAll(['b', 'c', 'd']);
+			expect(disposed).toEqual([[1, 'a', 'delete'], [2, 'b', 'delete'], [3, 'c', 'delete']]);
+		});
+
+		test('is called by clear', () => {
+			cache.clear();
+			expect(disposed).toEqual([[1, 'a', 'clear'], [2, 'b', 'clear'], [3, 'c', 'clear']]);
+		});
+
+		test('is called when a value is overwritten', () => {
+			cache.put('a', 10);
+			cache.put('b', 2); // Same value, nothing to dispose
+			expect(disposed).toEqual([[1, 'a', 'set']]);
+		});
+
+		test('is called by putAll', () => {
+			cache.putAll([['a', 10], ['d', 4]]);
+			expect(disposed).toEqual([[1, 'a', 'set'], [2, 'b', 'evict']]);
+		});
+
+		test('is called when entries expire', () => {
+			vi.useFakeTimers();
+			try {
+				cache.clear();
+				disposed = [];
+				cache.putAll([['a', 1], ['b', 2], ['c', 3], ['d', 4]], { ttl: 100 });
+				vi.advanceTimersByTime(100);
+				cache.get('b');
+				cache.has('c');
+				cache.peek('d');
+				expect(cache.purgeStale()).toBe(0);
+				expect(disposed).toEqual([[1, 'a', 'evict'], [2, 'b', 'expire'], [3, 'c', 'expire'], [4, 'd', 'expire']]);
+
+				cache.put('e', 5, { ttl: 100 });
+				vi.advanceTimersByTime(100);
+				cache.purgeStale();
+				cache.put('f', 6, { ttl: 100 });
+				vi.advanceTimersByTime(100);
+				cache.evict();
+				expect(disposed.slice(4)).toEqual([[5, 'e', 'expire'], [6, 'f', 'expire']]);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('is not called for rejected entries', () => {
+			const sized = new EvictingCache<string, number>(3, { maxSize: 5, sizeCalculation: (value) => value, dispose: () => expect.fail() });
+			expect(() => sized.put('a', 6)).toThrow(RangeError);
+		});
+
+		test('is called after the cache has been updated', () => {
+			const sizes: number[] = [];
+			const observed = new EvictingCache<string, number>(2, { dispose: () => sizes.push(observed.size) });
+			observed.putAll([['a', 1], ['b', 2], ['c', 3]]);
+			observed.clear();
+			expect(sizes).toEqual([2, 0, 0]);
+		});
+
+		test('errors are rethrown after the operation completes', () => {
+			const throwing = new EvictingCache<string, number>(3, { dispose: (value) => { throw new Error(`dispose ${value}`) } });
+			throwing.putAll([['a', 1], ['b', 2]]);
+			expect(() => throwing.delete('a')).toThrow('dispose 1');
+			expect(throwing.has('a')).toBe(false);
+			expect(throwing.size).toBe(1);
+		});
+
+		test('errors from several values are aggregated', () => {
+			const throwing = new EvictingCache<string, number>(3, { dispose: (value) => { throw new Error(`dispose ${value}`) } });
+			throwing.putAll([['a', 1], ['b', 2], ['c', 3]]);
+
+			let error: unknown;
+			try {
+				throwing.deleteAll(['a', 'b', 'c']);
+			} catch (e) {
+				error = e;
+			}
+
+			expect(error).toBeInstanceOf(AggregateError);
+			expect((error as AggregateError).errors.map((e: Error) => e.message)).toEqual(['dispose 1', 'dispose 2', 'dispose 3']);
+			expect(throwing.size).toBe(0);
+		});
+	});
+
+	describe('getOrPutAsync', () => {
+		test('returns existing value without calling the producer', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.put('a', 1);
+			await expect(cache.getOrPutAsync('a', () => Promise.reject(new Error('unexpected')))).resolves.toBe(1);
+			expect(cache.getStats().hits).toBe(1);
+		});
+
+		test('puts the resolved value', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			await expect(cache.getOrPutAsync('a', () => Promise.resolve(1))).resolves.toBe(1);
+			expect(cache.get('a')).toBe(1);
+		});
+
+		test('applies put options', async () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, number>(3);
+				await cache.getOrPutAsync('a', () => Promise.resolve(1), { ttl: 100 });
+				vi.advanceTimersByTime(100);
+				expect(cache.has('a')).toBe(false);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('concurrent callers share one producer call', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			const producer = vi.fn(() => Promise.resolve(1));
+			const first = cache.getOrPutAsync('a', producer);
+			const second = cache.getOrPutAsync('a', producer);
+			expect(second).toBe(first);
+			await expect(Promise.all([first, second])).resolves.toEqual([1, 1]);
+			expect(producer).toHaveBeenCalledTimes(1);
+
+			// Once settled, the next miss calls the producer again
+			cache.delete('a');
+			await cache.getOrPutAsync('a', producer);
+			expect(producer).toHaveBeenCalledTimes(2);
+		});
+
+		test('does not modify cache when producer rejects', async () => {
+			const cache = new EvictingCache<string, number>(2);
+			cache.put('a', 1);
+			const first = cache.getOrPutAsync('b', () => Promise.reject(new Error('Producer failed')));
+			const second = cache.getOrPutAsync('b', () => Promise.resolve(2));
+			await expect(first).rejects.toThrow('Producer failed');
+			await expect(second).rejects.toThrow('Producer failed');
+			expect([...cache.keys()]).toEqual(['a']);
+
+			// Rejections are not cached
+			await expect(cache.getOrPutAsync('b', () => Promise.resolve(2))).resolves.toBe(2);
+		});
+
+		test('does not modify cache when producer throws synchronously', async () => {
+			const cache = new EvictingCache<string, number>(2);
+			await expect(cache.getOrPutAsync('a', () => { throw new Error('Producer failed') })).rejects.toThrow('Producer failed');
+			expect(cache.size).toBe(0);
+		});
+
+		test('does not put the value if the key is put while pending', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			const pending = cache.getOrPutAsync('a', () => Promise.resolve(1));
+			cache.put('a', 2);
+			await expect(pending).resolves.toBe(1);
+			expect(cache.get('a')).toBe(2);
+		});
+
+		test('does not put the value if the key is deleted while pending', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			const deleted = cache.getOrPutAsync('a', () => Promise.resolve(1));
+			cache.delete('a');
+			const deletedAll = cache.getOrPutAsync('b', () => Promise.resolve(2));
+			cache.deleteAll(['b']);
+			const cleared = cache.getOrPutAsync('c', () => Promise.resolve(3));
+			cache.clear();
+			await expect(Promise.all([deleted, deletedAll, cleared])).resolves.toEqual([1, 2, 3]);
+			expect(cache.size).toBe(0);
+		});
+
+		test('counts a miss for every caller', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			await Promise.all([cache.getOrPutAsync('a', () => Promise.resolve(1)), cache.getOrPutAsync('a', () => Promise.resolve(1))]);
+			expect(cache.getStats().misses).toBe(2);
+		});
+	});
+
+	describe('fetch', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		test('constructor with invalid staleness options', () => {
+			expect(() => new EvictingCache<string, number>(3, { staleAfter: -1 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { staleIfError: Infinity })).toThrow(RangeError);
+		});
+
+		test('rejects without a fetchMethod', async () => {
+			const cache = new EvictingCache<string, number>(3);
+			await expect(cache.fetch('a')).rejects.toThrow(TypeError);
+		});
+
+		test('loads missing values', async () => {
+			const fetchMethod = vi.fn((key: string) => Promise.resolve(key.length));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod });
+			const [first, second] = await Promise.all([cache.fetch('abc'), cache.fetch('abc')]);
+			expect(first).toBe(3);
+			expect(second).toBe(3);
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+			expect(fetchMethod).toHaveBeenCalledWith('abc', undefined);
+			expect(cache.peek('abc')).toBe(3);
+		});
+
+		test('returns fresh values without loading', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(999);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			expect(fetchMethod).not.toHaveBeenCalled();
+		});
+
+		test('returns stale values and refreshes them in the background', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			expect(fetchMethod).toHaveBeenCalledWith('a', 1);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.peek('a')).toBe(2);
+			await expect(cache.fetch('a')).resolves.toBe(2);
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+		});
+
+		test('returns the value when a hit listener deletes the key', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000 });
+			cache.on('hit', (event) => cache.delete(event.key));
+			cache.put('a', 1);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			expect(cache.has('a')).toBe(false);
+			expect(fetchMethod).not.toHaveBeenCalled();
+
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			expect(fetchMethod).toHaveBeenCalledWith('a', 1);
+		});
+
+		test('refreshes a stale value only once at a time', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await Promise.all([cache.fetch('a'), cache.fetch('a'), cache.fetch('a')]);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+		});
+
+		test('removes the stale value when a refresh fails without a grace period', async () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: () => Promise.reject(new Error('down')), staleAfter: 1000, dispose });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.has('a')).toBe(false);
+			expect(dispose).toHaveBeenCalledWith(1, 'a', 'expire');
+			await expect(cache.fetch('a')).rejects.toThrow('down');
+		});
+
+		test('passes errors thrown while removing the stale value after a failed refresh to onError', async () => {
+			const onError = vi.fn();
+			const dispose = vi.fn(() => { throw new Error('dispose failed') });
+			const fetchMethod = (): Promise<number> => Promise.reject(new Error('down'));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000, dispose, onError });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.has('a')).toBe(false);
+			expect(onError).toHaveBeenCalledWith(new Error('dispose failed'));
+
+			// Without onError, the error is ignored rather than becoming an unhandled rejection
+			const ignoring = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000, dispose });
+			ignoring.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(ignoring.fetch('a')).resolves.toBe(1);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(ignoring.has('a')).toBe(false);
+		});
+
+		test('passes errors thrown by the callbacks of a successful refresh to onError', async () => {
+			const onError = vi.fn();
+			const dispose = vi.fn(() => { throw new Error('dispose failed') });
+			const fetchMethod = vi.fn((): Promise<number | typeof notFound> => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000, dispose, onError });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.peek('a')).toBe(2);
+			expect(dispose).toHaveBeenCalledWith(1, 'a', 'set');
+			expect(onError).toHaveBeenCalledTimes(1);
+			expect(onError).toHaveBeenCalledWith(new Error('dispose failed'));
+
+			// The same goes for a refresh that finds the key no longer exists
+			fetchMethod.mockResolvedValue(notFound);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(2);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.has('a')).toBe(false);
+			expect(dispose).toHaveBeenCalledWith(2, 'a', 'delete');
+			expect(onError).toHaveBeenCalledTimes(2);
+		});
+
+		test('keeps the stale value for the grace period when a refresh fails', async () => {
+			const fetchMethod = vi.fn(() => Promise.reject(new Error('down')));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000, staleIfError: 500 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			await vi.advanceTimersByTimeAsync(300);
+
+			// Fetching during the grace period retries the refresh without extending the grace period
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			await vi.advanceTimersByTimeAsync(199);
+			expect(fetchMethod).toHaveBeenCalledTimes(2);
+			expect(cache.peek('a')).toBe(1);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(cache.peek('a')).toBe(null);
+		});
+
+		test('a failed refresh does not affect a value put while refreshing', async () => {
+			let reject!: (error: Error) => void;
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: () => new Promise((_, r) => { reject = r }), staleAfter: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+			await cache.fetch('a');
+			await vi.advanceTimersByTimeAsync(0);
+			cache.put('a', 3);
+			reject(new Error('down'));
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.peek('a')).toBe(3);
+		});
+
+		test('updates stats', async () => {
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: () => Promise.resolve(1), staleAfter: 1000 });
+			await cache.fetch('a'); // miss
+			await cache.fetch('a'); // hit
+			vi.advanceTimersByTime(1000);
+			await cache.fetch('a'); // stale hit
+			await vi.advanceTimersByTimeAsync(0);
+			expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, hitRate: 2 / 3 });
+		});
+
+		test('expired values are loaded again', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, ttl: 100 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(100);
+			await expect(cache.fetch('a')).resolves.toBe(2);
+			expect(fetchMethod).toHaveBeenCalledWith('a', undefined);
+		});
+	});
+
+	describe('eviction policies', () => {
+		const policies: EvictionPolicyName[] = ['lru', 'fifo', 'lfu', 'slru', 'tinylfu'];
+
+		test.each(policies)('%s evicts the first entry in iteration order', (policy) => {
+			const cache = new EvictingCache<string, number>(4, { policy });
+			cache.putAll([['a', 1], ['b', 2], ['c', 3], ['d', 4]]);
+			cache.get('a');
+			cache.get('c');
+			cache.get('a');
+
+			while (cache.size > 0) {
+				const [first] = cache.keys();
+				expect(cache.evict()).toBe(true);
+				expect(cache.has(first!)).toBe(false);
+			}
+			expect(cache.evict()).toBe(false);
+		});
+
+		test.each(policies)('%s respects capacity and keeps stats', (policy) => {
+			const cache = new EvictingCache<number, number>(10, { policy });
+			for (let i = 0; i < 100; i++) {
+				cache.put(i, i);
+				cache.get(i);
+				cache.get(-i - 1);
+			}
+			expect(cache.size).toBe(10);
+			expect([...cache.keys()]).toHaveLength(10);
+			expect(cache.getStats()).toMatchObject({ hits: 100, misses: 100, hitRate: 0.5 });
+		});
+
+		test.each(policies)('%s respects a resized capacity', (policy) => {
+			const cache = new EvictingCache<number, number>(20, { policy });
+			for (let i = 0; i < 20; i++) { cache.put(i, i) }
+			for (let i = 0; i < 20; i += 2) { cache.get(i) }
+
+			cache.resize(5);
+			expect(cache.size).toBe(5);
+			for (let i = 20; i < 40; i++) { cache.put(i, i) }
+			expect(cache.size).toBe(5);
+
+			cache.resize(30);
+			for (let i = 40; i < 100; i++) { cache.put(i, i) }
+			expect(cache.size).toBe(30);
+			expect([...cache.keys()]).toHaveLength(30);
+		});
+
+		test('fifo ignores reads', () => {
+			const cache = new EvictingCache<string, number>(3, { policy: 'fifo' });
+			cache.putAll([['a', 1], ['b', 2], ['c', 3]]);
+			cache.get('a');
+			cache.put('d', 4);
+			expect([...cache.keys()]).toEqual(['b', 'c', 'd']);
+		});
+
+		test('lfu evicts the least frequently used entry', () => {
+			const cache = new EvictingCache<string, number>(3, { policy: 'lfu' });
+			cache.putAll([['a', 1], ['b', 2], ['c', 3]]);
+			cache.get('a');
+			cache.get('a');
+			cache.get('c');
+			cache.put('d', 4);
+			expect([...cache.keys()]).toEqual(['d', 'c', 'a']);
+		});
+
+		test.each<EvictionPolicyName>(['slru', 'tinylfu'])('%s keeps frequently read entries during a scan', (policy) => {
+			const cache = new EvictingCache<string, number>(10, { policy });
+			for (let i = 0; i < 5; i++) {
+				cache.put(`hot${i}`, i);
+				cache.get(`hot${i}`);
+			}
+			for (let i = 0; i < 100; i++) { cache.put(`scan${i}`, i) }
+
+			for (let i = 0; i < 5; i++) { expect(cache.has(`hot${i}`)).toBe(true) }
+		});
+
+		test('lru loses frequently read entries during a scan', () => {
+			const cache = new EvictingCache<string, number>(10);
+			for (let i = 0; i < 5; i++) {
+				cache.put(`hot${i}`, i);
+				cache.get(`hot${i}`);
+			}
+			for (let i = 0; i < 100; i++) { cache.put(`scan${i}`, i) }
+
+			expect(cache.has('hot0')).toBe(false);
+		});
+
+		test('clear resets the policy', () => {
+			const cache = new EvictingCache<string, number>(2, { policy: 'lfu' });
+			cache.putAll([['a', 1], ['b', 2]]);
+			cache.get('a');
+			cache.clear();
+			cache.putAll([['c', 3], ['d', 4], ['e', 5]]);
+			expect([...cache.keys()]).toEqual(['d', 'e']);
+		});
+	});
+
+	describe('snapshots', () => {
+		test('dump lists entries in eviction order', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.putAll([['a', 1], ['b', 2], ['c', 3]]);
+			cache.get('a');
+			expect(cache.dump()).toEqual({
+				version: 1,
+				capacity: 3,
+				policy: 'lru',
+				entries: [{ key: 'b', value: 2 }, { key: 'c', value: 3 }, { key: 'a', value: 1 }]
+			});
+		});
+
+		test('snapshots are JSON-safe', () => {
+			const cache = new EvictingCache<string, { name: string }>(3);
+			cache.put('a', { name: 'one' });
+			const snapshot = cache.dump();
+			expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+		});
+
+		test('restore rebuilds the order of the snapshot', () => {
+			const source = new EvictingCache<string, number>(3);
+			source.putAll([['a', 1], ['b', 2], ['c', 3]]);
+			source.get('a');
+
+			const cache = new EvictingCache<string, number>(3);
+			expect(cache.restore(source.dump())).toBe(3);
+			expect([...cache.entries()]).toEqual([['b', 2], ['c', 3], ['a', 1]]);
+			cache.put('d', 4);
+			expect(cache.has('b')).toBe(false);
+		});
+
+		test('restore respects capacity', () => {
+			const source = new EvictingCache<string, number>(4);
+			source.putAll([['a', 1], ['b', 2], ['c', 3], ['d', 4]]);
+
+			const disposed: string[] = [];
+			const cache = new EvictingCache<string, number>(2, { dispose: (value, key) => disposed.push(key) });
+			cache.restore(source.dump());
+			expect([...cache.keys()]).toEqual(['c', 'd']);
+			expect(disposed).toEqual(['a', 'b']);
+		});
+
+		test('restore rejects unsupported versions', () => {
+			const cache = new EvictingCache<string, number>(3);
+			expect(() => cache.restore({ version: 2, capacity: 3, policy: 'lru', entries: [] } as unknown as CacheSnapshot)).toThrow(RangeError);
+		});
+
+		test('from creates a cache with the capacity and policy of the snapshot', () => {
+			const source = new EvictingCache<string, number>(5, { policy: 'fifo' });
+			source.putAll([['a', 1], ['b', 2]]);
+
+			const cache = EvictingCache.from<string, number>(source.dump());
+			expect(cache.capacity).toBe(5);
+			expect(cache.policy).toBe('fifo');
+			expect([...cache.entries()]).toEqual([['a', 1], ['b', 2]]);
+
+			const smaller = EvictingCache.from<string, number>(source.dump(), { capacity: 1, policy: 'lru' });
+			expect(smaller.capacity).toBe(1);
+			expect(smaller.policy).toBe('lru');
+			expect([...smaller.keys()]).toEqual(['b']);
+		});
+
+		test('keeps expiration and staleness', () => {
+			vi.useFakeTimers();
+			try {
+				const source = new EvictingCache<string, number>(3, { staleAfter: 500 });
+				source.put('a', 1, { ttl: 1000 });
+				source.put('b', 2, { ttl: 100 });
+				source.put('c', 3);
+				vi.advanceTimersByTime(100);
+
+				const snapshot = source.dump();
+				expect(snapshot.entries).toEqual([
+					{ key: 'a', value: 1, expiresAt: Date.now() + 900, staleAt: Date.now() + 400 },
+					{ key: 'c', value: 3, staleAt: Date.now() + 400 }
+				]);
+
+				vi.advanceTimersByTime(500);
+				const cache = EvictingCache.from<string, number>(snapshot);
+				expect(cache.size).toBe(2);
+				vi.advanceTimersByTime(400);
+				expect([...cache.keys()]).toEqual(['c']);
+
+				// Entries that expired since the snapshot was taken are skipped
+				expect(new EvictingCache<string, number>(3).restore(snapshot)).toBe(1);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('codecs convert keys and values that are not JSON-safe', () => {
+			const source = new EvictingCache<Date, Map<string, bigint>>(3);
+			source.put(new Date(0), new Map([['a', 1n]]));
+
+			const snapshot = JSON.parse(JSON.stringify(source.dump({ keyCodec: jsonCodec, valueCodec: jsonCodec }))) as CacheSnapshot;
+			const cache = EvictingCache.from<Date, Map<string, bigint>>(snapshot, { keyCodec: jsonCodec, valueCodec: jsonCodec });
+			expect([...cache.entries()]).toEqual([[new Date(0), new Map([['a', 1n]])]]);
+		});
+
+		test('custom codecs', () => {
+			const keyCodec = { encode: (key: { id: number }) => key.id, decode: (id: unknown) => ({ id: id as number }) };
+			const source = new EvictingCache<{ id: number }, string>(3);
+			source.put({ id: 7 }, 'seven');
+
+			const snapshot = source.dump({ keyCodec });
+			expect(snapshot.entries).toEqual([{ key: 7, value: 'seven' }]);
+			expect([...EvictingCache.from<{ id: number }, string>(snapshot, { keyCodec }).keys()]).toEqual([{ id: 7 }]);
+		});
+	});
+
+	describe('events', () => {
+		test('emits set, delete, evict and clear events once the operation has completed', () => {
+			const cache = new EvictingCache<string, number>(2);
+			const events: CacheEvent<string, number>[] = [];
+			const record = (event: CacheEvent<string, number>): void => {
+				// Listeners see the cache after the operation has completed
+				expect(cache.size).toBeLessThanOrEqual(2);
+				events.push(event);
+			};
+			cache.on('set', record);
+			cache.on('delete', record);
+			cache.on('evict', record);
+			cache.on('clear', record);
+
+			cache.put('a', 1);
+			cache.put('b', 2);
+			cache.put('a', 10);
+			cache.put('c', 3);
+			cache.delete('a');
+			cache.delete('missing');
+			cache.clear();
+
+			expect(events).toMatchObject([
+				{ type: 'set', key: 'a', value: 1, expiresAt: Infinity },
+				{ type: 'set', key: 'b', value: 2, expiresAt: Infinity },
+				{ type: 'set', key: 'a', value: 10, expiresAt: Infinity },
+				{ type: 'evict', key: 'b', value: 2, reason: 'evict' },
+				{ type: 'set', key: 'c', value: 3, expiresAt: Infinity },
+				{ type: 'delete', key: 'a', value: 10 },
+				{ type: 'clear' }
+			]);
+		});
+
+		test('set events carry the tags and pin of the entry, and pins emit pin and unpin events', () => {
+			const cache = new EvictingCache<string, number>(2);
+			const events: CacheEvent<string, number>[] = [];
+			cache.on('set', (event) => events.push(event));
+			cache.on('pin', (event) => events.push(event));
+			cache.on('unpin', (event) => events.push(event));
+			cache.on('evict', (event) => events.push(event));
+
+			cache.put('a', 1, { tags: ['x', 'y'], pinned: true });
+			cache.put('a', 2);
+			cache.put('b', 3);
+			cache.pin('b');
+			cache.pin('b');
+			cache.pin('missing');
+			cache.put('c', 4);
+			cache.unpin('a');
+			cache.unpin('a');
+
+			expect(events).toMatchObject([
+				{ type: 'set', key: 'a', value: 1, tags: ['x', 'y'], pinned: true },
+				{ type: 'set', key: 'a', value: 2, tags: [], pinned: true },
+				{ type: 'set', key: 'b', value: 3, tags: [], pinned: false },
+				{ type: 'pin', key: 'b' },
+				{ type: 'set', key: 'c', value: 4, pinned: false },
+				// Unpinning makes room for the unpinned entry
+				{ type: 'unpin', key: 'a' },
+				{ type: 'evict', key: 'c', reason: 'evict' }
+			]);
+		});
+
+		test('expired entries emit evict events with the expire reason', () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, number>(3, { ttl: 100 });
+				const events: CacheEventMap<string, number>['evict'][] = [];
+				cache.on('evict', (event) => events.push(event));
+				const setEvents: CacheEventMap<string, number>['set'][] = [];
+				cache.on('set', (event) => setEvents.push(event));
+
+				cache.put('a', 1);
+				expect(setEvents).toMatchObject([{ type: 'set', key: 'a', value: 1, expiresAt: Date.now() + 100 }]);
+
+				vi.advanceTimersByTime(100);
+				expect(cache.get('a')).toBeNull();
+				expect(events).toMatchObject([{ type: 'evict', key: 'a', value: 1, reason: 'expire' }]);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('on() returns a function that removes the listener', () => {
+			const cache = new EvictingCache<string, number>(3);
+			const listener = vi.fn();
+			const unsubscribe = cache.on('set', listener);
+			const other = vi.fn();
+			cache.on('set', other);
+
+			cache.put('a', 1);
+			unsubscribe();
+			cache.put('b', 2);
+			cache.off('set', other);
+			cache.off('delete', other);
+			cache.put('c', 3);
+
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(other).toHaveBeenCalledTimes(2);
+		});
+
+		test('listeners removed by a listener are not called for the remaining events', () => {
+			const cache = new EvictingCache<string, number>(3);
+			const listener = vi.fn(() => unsubscribe());
+			const unsubscribe = cache.on('set', listener);
+
+			cache.putAll([['a', 1], ['b', 2]]);
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		test('emits hit and miss events from get and fetch', async () => {
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: (key) => Promise.resolve(key.length) });
+			const events: CacheEvent[] = [];
+			cache.on('hit', (event) => events.push(event));
+			cache.on('miss', (event) => events.push(event));
+
+			cache.put('a', 1);
+			cache.get('a');
+			cache.get('b');
+			cache.peek('a');
+			await cache.fetch('cc');
+			await cache.fetch('cc');
+
+			expect(events.every((event) => event instanceof Event && event instanceof CacheEvent)).toBe(true);
+			expect(events).toMatchObject([
+				{ type: 'hit', key: 'a', value: 1 },
+				{ type: 'miss', key: 'b' },
+				{ type: 'miss', key: 'cc' },
+				{ type: 'hit', key: 'cc', value: 2 }
+			]);
+		});
+
+		test('supports addEventListener and removeEventListener', () => {
+			const cache = new EvictingCache<string, number>(3);
+			const listener = vi.fn();
+			const handler = { handleEvent: vi.fn() };
+			cache.addEventListener('set', listener);
+			cache.addEventListener('set', listener);
+			cache.addEventListener('set', handler);
+
+			cache.put('a', 1);
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(handler.handleEvent).toHaveBeenCalledWith(expect.objectContaining({ type: 'set', key: 'a', value: 1 }));
+
+			cache.removeEventListener('set', listener);
+			cache.removeEventListener('set', handler);
+			cache.put('b', 2);
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(handler.handleEvent).toHaveBeenCalledTimes(1);
+		});
+
+		test('supports the once and signal options', () => {
+			const cache = new EvictingCache<string, number>(3);
+			const once = vi.fn();
+			const aborted = vi.fn();
+			const signalled = vi.fn();
+			const controller = new AbortController();
+			cache.addEventListener('set', once, { once: true });
+			cache.addEventListener('set', aborted, { signal: AbortSignal.abort() });
+			cache.on('set', signalled, { signal: controller.signal });
+
+			cache.put('a', 1);
+			controller.abort();
+			cache.put('b', 2);
+
+			expect(once).toHaveBeenCalledTimes(1);
+			expect(aborted).not.toHaveBeenCalled();
+			expect(signalled).toHaveBeenCalledTimes(1);
+		});
+
+		test('listeners removed by an earlier listener are not called', () => {
+			const cache = new EvictingCache<string, number>(3);
+			const second = vi.fn();
+			const added = vi.fn();
+			cache.on('set', () => {
+				cache.off('set', second);
+				cache.on('set', added);
+			});
+			cache.on('set', second);
+
+			cache.put('a', 1);
+			expect(second).not.toHaveBeenCalled();
+			expect(added).not.toHaveBeenCalled();
+		});
+
+		test('every listener is called when one throws', () => {
+			const cache = new EvictingCache<string, number>(3, { dispose: () => { throw new Error('dispose') } });
+			const listener = vi.fn();
+			cache.on('set', () => { throw new Error('first') });
+			cache.on('set', listener);
+
+			expect(() => cache.put('a', 1)).toThrow('first');
+			expect(listener).toHaveBeenCalledTimes(1);
+			expect(() => cache.put('a', 2)).toThrow(AggregateError);
+			expect(listener).toHaveBeenCalledTimes(2);
+		});
+
+		test('snapshot restores emit set events with the original expiry', () => {
+			const source = new EvictingCache<string, number>(3);
+			source.put('a', 1, { ttl: 60000 });
+			const snapshot = source.dump();
+
+			const cache = new EvictingCache<string, number>(3);
+			const listener = vi.fn();
+			cache.on('set', listener);
+			cache.restore(snapshot);
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'set', key: 'a', value: 1, expiresAt: snapshot.entries[0]!.expiresAt }));
+		});
+	});
+
+	describe('keyHasher', () => {
+		test('equal structural keys share an entry', () => {
+			const cache = new EvictingCache<[string, number], string>(3, { keyHasher: stableSerialize });
+			cache.put(['user', 42], 'a');
+
+			expect(cache.get(['user', 42])).toBe('a');
+			expect(cache.has(['user', 42])).toBe(true);
+			expect(cache.peek(['user', 41])).toBeNull();
+			expect(cache.getOrPut(['user', 42], () => 'b')).toBe('a');
+			expect(cache.getAll([['user', 42]]).size).toBe(1);
+			expect(cache.delete(['user', 42])).toBe(true);
+			expect(cache.size).toBe(0);
+		});
+
+		test('tinylfu keeps the read frequency of a structural key that is put again', () => {
+			const cache = new EvictingCache<[string, number], number>(10, { policy: 'tinylfu', keyHasher: stableSerialize });
+			cache.put(['hot', 0], 0);
+			for (let i = 0; i < 5; i++) { cache.get(['hot', 0]) }
+			cache.put(['hot', 0], 1);
+
+			// Every scanned key is read once, which is less often than the hot key
+			for (let i = 0; i < 100; i++) {
+				cache.put(['scan', i], i);
+				cache.get(['scan', i]);
+			}
+			expect(cache.peek(['hot', 0])).toBe(1);
+		});
+
+		test('the iterators return the original keys', () => {
+			const cache = new EvictingCache<{ id: number; locale: string }, string>(3, { keyHasher: ({ id, locale }) => `${id}:${locale}` });
+			const first = { id: 42, locale: 'en' };
+			const second = { id: 43, locale: 'en' };
+			cache.put(first, 'a');
+			cache.put(second, 'b');
+			cache.get({ id: 42, locale: 'en' });
+
+			const [[key]] = cache.entries();
+			expect(key).toBe(second);
+			expect([...cache.keys()]).toEqual([second, first]);
+			expect([...cache.keys()][1]).toBe(first);
+		});
+
+		test('putting an equal key replaces the entry and its key', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<number[], string>(3, { keyHasher: stableSerialize, dispose });
+			const first = [1, 2];
+			const second = [1, 2];
+			cache.put(first, 'a');
+			cache.put(second, 'b');
+
+			expect(cache.size).toBe(1);
+			expect([...cache.keys()][0]).toBe(second);
+			expect(dispose).toHaveBeenCalledWith('a', first, 'set');
+		});
+
+		test('removals report the stored key', () => {
+			const cache = new EvictingCache<number[], string>(1, { keyHasher: stableSerialize });
+			const listener = vi.fn();
+			cache.on('delete', listener);
+			cache.on('evict', listener);
+			const first = [1];
+			cache.put(first, 'a');
+			cache.put([2], 'b');
+			expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'evict', key: first }));
+
+			expect(cache.deleteAll([[2], [3]])).toBe(1);
+			expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ type: 'delete', key: [2] }));
+		});
+
+		test('loads are shared between equal keys', async () => {
+			const fetchMethod = vi.fn((key: number[]) => Promise.resolve(key.join()));
+			const cache = new EvictingCache<number[], string>(3, { keyHasher: stableSerialize, fetchMethod });
+
+			expect(await Promise.all([cache.fetch([1, 2]), cache.fetch([1, 2])])).toEqual(['1,2', '1,2']);
+			expect(await cache.getOrPutAsync([1, 2], () => Promise.resolve('other'))).toBe('1,2');
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('weak values', () => {
+		type Value = { id: number };
+		/** Collects a value, and finalizes it unless `finalize` is false, in which case the returned function finalizes it. */
+		let collect: (value: object, finalize?: boolean) => () => void;
+
+		beforeEach(() => {
+			// Garbage collection is simulated, as it cannot be triggered reliably
+			const targets = new Map<WeakRef<object>, object>();
+			const registrations = new Map<object, { target: object; heldValue: unknown; finalize: (heldValue: unknown) => void }>();
+			vi.stubGlobal('WeakRef', class {
+				constructor(target: object) { targets.set(this, target) }
+				deref(): object | undefined { return targets.get(this) }
+			});
+			vi.stubGlobal('FinalizationRegistry', class {
+				private readonly finalize: (heldValue: unknown) => void;
+				constructor(finalize: (heldValue: unknown) => void) { this.finalize = finalize }
+				register(target: object, heldValue: unknown, token: object): void { registrations.set(token, { target, heldValue, finalize: this.finalize }) }
+				unregister(token: object): void { registrations.delete(token) }
+			});
+			collect = (value, finalize = true) => {
+				for (const [ref, target] of targets) {
+					if (target === value) { targets.delete(ref) }
+				}
+				const finalizers: (() => void)[] = [];
+				for (const [token, { target, heldValue, finalize }] of registrations) {
+					if (target !== value) { continue }
+					registrations.delete(token);
+					finalizers.push(() => finalize(heldValue));
+				}
+				const finalizeAll = (): void => finalizers.forEach((finalizer) => finalizer());
+				if (finalize) { finalizeAll() }
+
+				return finalizeAll;
+			};
+		});
+
+		afterEach(() => {
+			vi.unstubAllGlobals();
+		});
+
+		test('validates options', () => {
+			expect(() => new EvictingCache<string, Value>(3, { weakValues: true, hotSize: -1 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, Value>(3, { weakValues: true, hotSize: 1.5 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, Value>(3, { hotSize: 1 })).toThrow(TypeError);
+		});
+
+		test('values outside the hot segment can be collected', () => {
+			const cache = new EvictingCache<string, Value>(5, { weakValues: true, hotSize: 2 });
+			const a = { id: 1 }, b = { id: 2 }, c = { id: 3 };
+			cache.putAll([['a', a], ['b', b], ['c', c]]);
+
+			// 'a' left the hot segment when 'c' was put
+			collect(b);
+			collect(a);
+			expect(cache.size).toBe(2);
+			expect(cache.has('a')).toBe(false);
+			expect(cache.get('b')).toBe(b);
+			expect(cache.peek('c')).toBe(c);
+		});
+
+		test('collected values are treated as absent before they are finalized', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<string, Value>(5, { weakValues: true, dispose });
+			const listener = vi.fn();
+			cache.on('evict', listener);
+			const a = { id: 1 }, b = { id: 2 }, c = { id: 3 };
+			cache.putAll([['a', a], ['b', b], ['c', c]]);
+
+			collect(a, false);
+			collect(b, false);
+			expect(cache.size).toBe(1);
+			expect([...cache.entries()]).toEqual([['c', c]]);
+			expect(cache.dump().entries).toEqual([{ key: 'c', value: c }]);
+			expect(cache.get('a')).toBeNull();
+			expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1 });
+
+			// The collected value of 'b' is evicted first, without being disposed of or reported
+			expect(cache.evict()).toBe(true);
+			expect(cache.evict()).toBe(true);
+			expect(dispose.mock.calls).toEqual([[c, 'c', 'evict']]);
+			expect(listener).toHaveBeenCalledTimes(1);
+		});
+
+		test('reading a value holds it strongly again', () => {
+			const cache = new EvictingCache<string, Value>(5, { weakValues: true, hotSize: 1 });
+			const a = { id: 1 }, b = { id: 2 };
+			cache.put('a', a);
+			cache.put('b', b);
+			expect(cache.get('a')).toBe(a);
+
+			collect(a);
+			collect(b);
+			expect([...cache.keys()]).toEqual(['a']);
+		});
+
+		test('fetch holds a value strongly again', async () => {
+			const cache = new EvictingCache<string, Value>(5, { weakValues: true, hotSize: 1, fetchMethod: (key) => Promise.resolve({ id: key.length }) });
+			const a = await cache.fetch('a');
+			await cache.fetch('bb');
+			expect(await cache.fetch('a')).toBe(a);
+
+			collect(a);
+			expect(cache.has('a')).toBe(true);
+			expect(cache.has('bb')).toBe(true);
+		});
+
+		test('finalized entries are removed unless they have been replaced', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<string, Value>(5, { weakValues: true, dispose });
+			const a = { id: 1 }, b = { id: 2 };
+			cache.put('a', a);
+			collect(a);
+			expect(cache.size).toBe(0);
+
+			// The finalizers run after the keys have been replaced or deleted
+			cache.put('b', b);
+			const finalizeB = collect(b, false);
+			const replacement = { id: 3 };
+			cache.put('b', replacement);
+			finalizeB();
+			expect(cache.get('b')).toBe(replacement);
+
+			const c = { id: 4 };
+			cache.put('c', c);
+			const finalizeC = collect(c, false);
+			cache.delete('c');
+			finalizeC();
+			expect(dispose).not.toHaveBeenCalled();
+
+			const d = { id: 5 };
+			cache.put('d', d);
+			collect(d, false);
+			cache.clear();
+			expect(dispose.mock.calls).toEqual([[replacement, 'b', 'clear']]);
+		});
+
+		test('values that are not objects are always held strongly', () => {
+			const cache = new EvictingCache<string, Value | string>(5, { weakValues: true });
+			const a = { id: 1 };
+			cache.put('a', a);
+			cache.put('b', 'value');
+			collect(a);
+			cache.put('a', a);
+			cache.delete('a');
+			expect([...cache.entries()]).toEqual([['b', 'value']]);
+		});
+
+		test('pinned values are held strongly', () => {
+			const cache = new EvictingCache<string, Value>(5, { weakValues: true, hotSize: 1 });
+			const a = { id: 1 }, b = { id: 2 }, c = { id: 3 };
+			cache.put('a', a, { pinned: true });
+			cache.putAll([['b', b], ['c', c]]);
+			cache.pin('b');
+			cache.get('a');
+
+			collect(a);
+			collect(b);
+			expect(cache.peek('a')).toBe(a);
+			expect(cache.peek('b')).toBe(b);
+
+			// An unpinned value is put back into the hot segment, pushing out 'c'
+			cache.unpin('b');
+			collect(c);
+			expect(cache.has('c')).toBe(false);
+			expect(cache.peek('b')).toBe(b);
+		});
+	});
+
+	describe('shrink', () => {
+		test('evicts a fraction of the entries in eviction order', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<number, number>(10, { dispose });
+			for (let i = 0; i < 10; i++) { cache.put(i, i) }
+			cache.get(0);
+
+			expect(cache.shrink(0.25)).toBe(3);
+			expect([...cache.keys()]).toEqual([4, 5, 6, 7, 8, 9, 0]);
+			expect(dispose).toHaveBeenCalledWith(1, 1, 'evict');
+			expect(cache.capacity).toBe(10);
+
+			expect(cache.shrink(1)).toBe(7);
+			expect(cache.size).toBe(0);
+			expect(cache.shrink(0.5)).toBe(0);
+		});
+
+		test('validates the fraction', () => {
+			const cache = new EvictingCache<number, number>(10);
+			expect(() => cache.shrink(0)).toThrow(RangeError);
+			expect(() => cache.shrink(1.5)).toThrow(RangeError);
+			expect(() => cache.shrink(NaN)).toThrow(RangeError);
+		});
+	});
+
+	describe('tags', () => {
+		test('invalidateTag removes every entry with the tag', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<string, number>(5, { dispose });
+			cache.put('a', 1, { tags: ['user:1'] });
+			cache.put('b', 2, { tags: ['user:1', 'user:2'] });
+			cache.getOrPut('c', () => 3, { tags: new Set(['user:2']) });
+			cache.put('d', 4);
+
+			expect(cache.invalidateTag('user:1')).toBe(2);
+			expect([...cache.keys()]).toEqual(['c', 'd']);
+			expect(dispose).toHaveBeenCalledWith(1, 'a', 'delete');
+			expect(dispose).toHaveBeenCalledWith(2, 'b', 'delete');
+			expect(cache.invalidateTag('user:1')).toBe(0);
+			expect(cache.invalidateTag('unknown')).toBe(0);
+		});
+
+		test('invalidateTags removes entries with any of the tags once', () => {
+			const cache = new EvictingCache<string, number>(5);
+			cache.put('a', 1, { tags: ['x', 'y'] });
+			cache.put('b', 2, { tags: ['y'] });
+			cache.put('c', 3, { tags: ['z'] });
+
+			expect(cache.invalidateTags(['x', 'y', 'missing'])).toBe(2);
+			expect([...cache.keys()]).toEqual(['c']);
+		});
+
+		test('putting a key replaces its tags', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.put('a', 1, { tags: ['old'] });
+			cache.put('a', 2, { tags: ['new'] });
+
+			expect(cache.invalidateTag('old')).toBe(0);
+			expect(cache.invalidateTag('new')).toBe(1);
+			cache.put('b', 1, { tags: ['old'] });
+			cache.put('b', 2);
+			expect(cache.invalidateTag('old')).toBe(0);
+			expect(cache.has('b')).toBe(true);
+		});
+
+		test('evicted, expired, deleted and cleared entries are removed from the index', () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, number>(2);
+				cache.put('a', 1, { tags: ['t'] });
+				cache.put('b', 2, { tags: ['t'] });
+				cache.evict();
+				cache.delete('b');
+				expect(cache.invalidateTag('t')).toBe(0);
+
+				cache.put('c', 3, { tags: ['t'], ttl: 100 });
+				vi.advanceTimersByTime(100);
+				expect(cache.get('c')).toBeNull();
+				expect(cache.invalidateTag('t')).toBe(0);
+
+				cache.put('d', 4, { tags: ['t'] });
+				cache.clear();
+				cache.put('e', 5);
+				expect(cache.invalidateTag('t')).toBe(0);
+				expect(cache.size).toBe(1);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('invalidated events are delivered after every entry is removed', () => {
+			const cache = new EvictingCache<string, number>(3);
+			const sizes: number[] = [];
+			const types: string[] = [];
+			cache.on('delete', ({ type }) => {
+				sizes.push(cache.size);
+				types.push(type);
+			});
+			cache.on('invalidate', ({ type, tags }) => types.push(`${type} ${tags.join()}`));
+			cache.put('a', 1, { tags: ['t'] });
+			cache.put('b', 2, { tags: ['t'] });
+
+			cache.invalidateTags(new Set(['t', 'u']));
+			expect(sizes).toEqual([0, 0]);
+			expect(types).toEqual(['delete', 'delete', 'invalidate t,u']);
+		});
+
+		test('tags are kept by snapshots', () => {
+			const source = new EvictingCache<string, number>(3);
+			source.put('a', 1, { tags: ['t', 'u'] });
+			source.put('b', 2);
+			const snapshot = source.dump();
+			expect(snapshot.entries).toEqual([{ key: 'a', value: 1, tags: ['t', 'u'] }, { key: 'b', value: 2 }]);
+
+			const cache = new EvictingCache<string, number>(3);
+			cache.restore(snapshot);
+			expect(cache.invalidateTag('u')).toBe(1);
+			expect([...cache.keys()]).toEqual(['b']);
+		});
+	});
+
+	describe('nullish values', () => {
+		test('tryGet tells cached null and undefined apart from missing keys', () => {
+			const cache = new EvictingCache<string, number | null | undefined>(3);
+			cache.put('null', null);
+			cache.put('undefined', undefined);
+
+			expect(cache.tryGet('null')).toEqual({ found: true, value: null });
+			expect(cache.tryGet('undefined')).toEqual({ found: true, value: undefined });
+			expect(cache.tryGet('missing')).toEqual({ found: false, value: undefined, absent: false });
+			expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1 });
+		});
+
+		test('tryGet updates the LRU order', () => {
+			const cache = new EvictingCache<string, number>(2);
+			cache.put('a', 1);
+			cache.put('b', 2);
+			cache.tryGet('a');
+			cache.put('c', 3);
+
+			// 'b' was the least recently used
+			expect([...cache.keys()]).toEqual(['a', 'c']);
+		});
+
+		test('tryGet skips expired entries', () => {
+			vi.useFakeTimers();
+			try {
+				const cache = new EvictingCache<string, null>(2, { ttl: 1000 });
+				cache.put('a', null);
+				vi.advanceTimersByTime(1000);
+				expect(cache.tryGet('a').found).toBe(false);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('cached nullish values are not produced again', async () => {
+			const cache = new EvictingCache<string, string | null | undefined>(3);
+			cache.put('null', null);
+			cache.put('undefined', undefined);
+			const producer = vi.fn(() => 'produced');
+
+			expect(cache.getOrPut('null', producer)).toBeNull();
+			expect(cache.getOrPut('undefined', producer)).toBeUndefined();
+			await expect(cache.getOrPutAsync('null', () => Promise.resolve('produced'))).resolves.toBeNull();
+			expect(producer).not.toHaveBeenCalled();
+		});
+
+		test('getAll includes cached nullish values', () => {
+			const cache = new EvictingCache<string, number | null | undefined>(3);
+			cache.put('a', 1);
+			cache.put('null', null);
+			cache.put('undefined', undefined);
+
+			expect(cache.getAll(['a', 'null', 'undefined', 'missing'])).toEqual(new Map<string, number | null | undefined>([['a', 1], ['null', null], ['undefined', undefined]]));
+			expect(cache.getStats()).toMatchObject({ hits: 3, misses: 1 });
+		});
+
+		test('fetch returns cached nullish values without loading', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(null));
+			const cache = new EvictingCache<string, null>(3, { fetchMethod });
+			await expect(cache.fetch('a')).resolves.toBeNull();
+			await expect(cache.fetch('a')).resolves.toBeNull();
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('negative caching', () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		test('constructor with an invalid negative capacity', () => {
+			expect(() => new EvictingCache<string, number>(3, { negativeCapacity: -1 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { negativeCapacity: 1.5 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { negativeCapacity: 1, negativeTtl: -1 })).toThrow(RangeError);
+		});
+
+		test('keys that are not found are remembered as absent', async () => {
+			const fetchMethod = vi.fn((key: string) => Promise.resolve(key === 'missing' ? notFound : key.length));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, negativeCapacity: 2 });
+
+			await expect(cache.tryFetch('missing')).resolves.toEqual({ found: false, value: undefined, absent: true });
+			await expect(cache.tryFetch('missing')).resolves.toEqual({ found: false, value: undefined, absent: true });
+			await expect(cache.fetch('missing')).rejects.toThrow(RangeError);
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+			expect(cache.tryGet('missing')).toEqual({ found: false, value: undefined, absent: true });
+			expect(cache.has('missing')).toBe(false);
+			expect(cache.size).toBe(0);
+
+			await expect(cache.tryFetch('abc')).resolves.toEqual({ found: true, value: 3 });
+		});
+
+		test('fetch rejects for keys that are not found', async () => {
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: () => Promise.resolve(notFound) });
+			const rejection = cache.fetch('a');
+
+			await expect(rejection).rejects.toThrow('key was not found');
+			await expect(rejection).rejects.toHaveProperty('cause', notFound);
+		});
+
+		test('keys are only remembered when negative caching is enabled', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(notFound));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod });
+
+			await expect(cache.tryFetch('a')).resolves.toMatchObject({ found: false, absent: true });
+			await expect(cache.tryFetch('a')).resolves.toMatchObject({ found: false, absent: true });
+			expect(fetchMethod).toHaveBeenCalledTimes(2);
+			expect(cache.tryGet('a')).toMatchObject({ found: false, absent: false });
+		});
+
+		test('tryFetch rejects with other errors', async () => {
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: () => Promise.reject(new RangeError('failed')) });
+			await expect(cache.tryFetch('a')).rejects.toThrow('failed');
+			await expect(new EvictingCache<string, number>(3).tryFetch('a')).rejects.toThrow(TypeError);
+		});
+
+		test('absent keys are forgotten when they are put, deleted or cleared', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve<number | typeof notFound>(notFound));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, negativeCapacity: 3 });
+			await Promise.all(['a', 'b', 'c', 'd'].map((key) => cache.tryFetch(key)));
+
+			cache.put('a', 1);
+			expect(cache.tryGet('a')).toEqual({ found: true, value: 1 });
+			cache.delete('b');
+			expect(cache.tryGet('b').absent).toBe(false);
+			cache.deleteAll(['c']);
+			expect(cache.tryGet('c').absent).toBe(false);
+			cache.clear();
+			expect(cache.tryGet('d').absent).toBe(false);
+		});
+
+		test('absent keys have their own capacity and time-to-live', async () => {
+			vi.useFakeTimers();
+			const fetchMethod = vi.fn(() => Promise.resolve(notFound));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, negativeCapacity: 2, negativeTtl: 1000 });
+			for (const key of ['a', 'b', 'c']) { await cache.tryFetch(key) }
+
+			// 'a' was the least recently remembered
+			expect(['a', 'b', 'c'].map((key) => cache.tryGet(key).absent)).toEqual([false, true, true]);
+
+			vi.advanceTimersByTime(1000);
+			expect(cache.tryGet('b').absent).toBe(false);
+			await cache.tryFetch('b');
+			expect(fetchMethod).toHaveBeenCalledTimes(4);
+		});
+
+		test('refreshing a key that no longer exists removes it', async () => {
+			vi.useFakeTimers();
+			const fetchMethod = vi.fn(() => Promise.resolve(notFound));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, staleAfter: 1000, staleIfError: 5000, negativeCapacity: 1 });
+			const deleted = vi.fn();
+			cache.on('delete', deleted);
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+
+			await expect(cache.fetch('a')).resolves.toBe(1);
+			await vi.waitFor(() => expect(deleted).toHaveBeenCalled());
+			expect(cache.tryGet('a')).toEqual({ found: false, value: undefined, absent: true });
+		});
+
+		test('a key that is put while it is being fetched is not remembered as absent', async () => {
+			let resolve!: (value: typeof notFound) => void;
+			const cache = new EvictingCache<string, number>(3, { fetchMethod: () => new Promise((resolver) => { resolve = resolver }), negativeCapacity: 1 });
+			const lookup = cache.tryFetch('a');
+			await Promise.resolve();
+			cache.put('a', 1);
+			resolve(notFound);
+
+			await expect(lookup).resolves.toMatchObject({ found: false });
+			expect(cache.tryGet('a')).toEqual({ found: true, value: 1 });
+		});
+	});
+
+	describe('transaction', () => {
+		test('applies every write together once the callback returns', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.putAll([['a', 1], ['b', 2]]);
+			const listener = vi.fn();
+			cache.on('set', listener);
+
+			const result = cache.transaction((tx) => {
+				tx.put('c', 3, { tags: new Set(['new']) });
+				tx.put('a', 10);
+				expect(tx.delete('b')).toBe(true);
+				// Nothing is applied while the callback runs
+				expect(cache.peek('a')).toBe(1);
+				expect(listener).not.toHaveBeenCalled();
+
+				return 'done';
+			});
+
+			expect(result).toBe('done');
+			expect([...cache.entries()]).toEqual([['c', 3], ['a', 10]]);
+			expect(listener).toHaveBeenCalledTimes(2);
+			expect(cache.invalidateTag('new')).toBe(1);
+		});
+
+		test('reads see the staged writes without updating the LRU order', () => {
+			const cache = new EvictingCache<string, number | null>(3);
+			cache.putAll([['a', 1], ['b', null]]);
+
+			cache.transaction((tx) => {
+				expect(tx.get('a')).toBe(1);
+				expect(tx.has('b')).toBe(true);
+				expect(tx.get('b')).toBeNull();
+				expect(tx.get('missing')).toBeNull();
+				tx.put('c', 3);
+				expect(tx.get('c')).toBe(3);
+				tx.delete('a');
+				expect(tx.has('a')).toBe(false);
+				expect(tx.delete('a')).toBe(false);
+				expect(tx.delete('missing')).toBe(false);
+			});
+
+			expect([...cache.keys()]).toEqual(['b', 'c']);
+			expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0 });
+		});
+
+		test('the last write of a key decides its LRU order', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.transaction((tx) => {
+				tx.put('a', 1);
+				tx.put('b', 2);
+				tx.put('a', 3);
+			});
+
+			expect([...cache.entries()]).toEqual([['b', 2], ['a', 3]]);
+		});
+
+		test('rolls back every write if the callback throws', () => {
+			const dispose = vi.fn();
+			const cache = new EvictingCache<string, number>(2, { dispose });
+			cache.putAll([['a', 1], ['b', 2]]);
+			cache.get('a');
+
+			expect(() => cache.transaction((tx) => {
+				tx.put('c', 3);
+				tx.put('d', 4);
+				tx.delete('a');
+				throw new Error('failed');
+			})).toThrow('failed');
+
+			// No entry was evicted and the LRU order is unchanged
+			expect([...cache.entries()]).toEqual([['b', 2], ['a', 1]]);
+			expect(dispose).not.toHaveBeenCalled();
+			expect(cache.getStats()).toMatchObject({ sets: 2, deletes: 0, evictions: { evict: 0 } });
+		});
+
+		test('writes are validated when they are staged', () => {
+			const cache = new EvictingCache<string, string>(3, { maxSize: 5, sizeCalculation: (value) => value.length });
+			cache.put('a', 'a');
+
+			expect(() => cache.transaction((tx) => {
+				tx.put('b', 'bb');
+				tx.put('c', 'cc', { ttl: -1 });
+			})).toThrow(RangeError);
+			expect(() => cache.transaction((tx) => { tx.put('b', 'bbbbbb') })).toThrow(RangeError);
+			expect([...cache.keys()]).toEqual(['a']);
+		});
+
+		test('evicts once for the final state', () => {
+			const evicted = vi.fn();
+			const cache = new EvictingCache<string, number>(2);
+			cache.on('evict', evicted);
+			cache.putAll([['a', 1], ['b', 2]]);
+
+			cache.transaction((tx) => {
+				tx.put('c', 3);
+				tx.put('d', 4);
+				tx.delete('c');
+			});
+
+			// Putting one at a time would also have evicted 'b' to make room for 'c'
+			expect([...cache.keys()]).toEqual(['b', 'd']);
+			expect(evicted).toHaveBeenCalledTimes(1);
+		});
+
+		test('evicts for the maximum size once for the final state', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 6, sizeCalculation: (value) => value.length });
+			cache.putAll([['a', 'aa'], ['b', 'bb'], ['c', 'cc']]);
+
+			cache.transaction((tx) => {
+				tx.put('d', 'dddd');
+				tx.put('b', 'b');
+				tx.delete('c');
+			});
+
+			expect([...cache.keys()]).toEqual(['d', 'b']);
+			expect(cache.calculatedSize).toBe(5);
+		});
+
+		test('cancels pending loads and forgets absent keys', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve<number | typeof notFound>(notFound));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, negativeCapacity: 2 });
+			await cache.tryFetch('a');
+			await cache.tryFetch('b');
+			let resolve!: (value: number) => void;
+			const pending = cache.getOrPutAsync('c', () => new Promise((resolver) => { resolve = resolver }));
+			await Promise.resolve();
+
+			cache.transaction((tx) => {
+				tx.put('a', 1);
+				tx.delete('b');
+				tx.delete('c');
+			});
+			resolve(3);
+			await pending;
+
+			expect(cache.tryGet('a')).toEqual({ found: true, value: 1 });
+			expect(cache.tryGet('b').absent).toBe(false);
+			expect(cache.has('c')).toBe(false);
+		});
+
+		test('reading an expired entry removes it even if the transaction is rolled back', () => {
+			vi.useFakeTimers();
+			try {
+				const expired = vi.fn();
+				const cache = new EvictingCache<string, number>(3, { ttl: 1000 });
+				cache.on('evict', expired);
+				cache.put('a', 1);
+				vi.advanceTimersByTime(1000);
+
+				expect(() => cache.transaction((tx) => {
+					expect(tx.has('a')).toBe(false);
+					throw new Error('failed');
+				})).toThrow('failed');
+				expect(expired).toHaveBeenCalledTimes(1);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('the transaction can only be used while the callback runs', () => {
+			const cache = new EvictingCache<string, number>(3);
+			let transaction!: CacheTransaction<string, number>;
+			cache.transaction((tx) => { transaction = tx });
+
+			expect(() => transaction.put('a', 1)).toThrow(TypeError);
+			expect(() => transaction.get('a')).toThrow(TypeError);
+			expect(cache.size).toBe(0);
+		});
+
+		test('asynchronous callbacks are rejected', async () => {
+			const cache = new EvictingCache<string, number>(3);
+
+			expect(() => cache.transaction(async (tx) => {
+				tx.put('a', 1);
+				await Promise.resolve();
+			})).toThrow(TypeError);
+			expect(cache.size).toBe(0);
+			await Promise.resolve();
+		});
+	});
+
+	describe('pinning', () => {
+		test('constructor with an invalid pinned overflow', () => {
+			expect(() => new EvictingCache<string, number>(3, { pinnedOverflow: 'grow' as 'exceed' })).toThrow(RangeError);
+		});
+
+		test('pinned entries are never evicted', () => {
+			const evicted = vi.fn();
+			const cache = new EvictingCache<string, number>(3);
+			cache.on('evict', evicted);
+			cache.put('config', 0, { pinned: true });
+			cache.putAll([['a', 1], ['b', 2], ['c', 3], ['d', 4]]);
+
+			expect([...cache.keys()]).toEqual(['c', 'd', 'config']);
+			expect(cache.evict()).toBe(true);
+			expect(cache.evict()).toBe(true);
+			expect(cache.evict()).toBe(false);
+			expect([...cache.keys()]).toEqual(['config']);
+			expect(evicted).toHaveBeenCalledTimes(4);
+		});
+
+		test('pin and unpin', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.putAll([['a', 1], ['b', 2], ['c', 3]]);
+
+			expect(cache.pin('a')).toBe(true);
+			expect(cache.pin('a')).toBe(true);
+			expect(cache.pin('missing')).toBe(false);
+			expect(cache.pinnedCount).toBe(1);
+			cache.put('d', 4);
+			expect([...cache.keys()]).toEqual(['c', 'd', 'a']);
+
+			// An unpinned entry is treated as if it had just been put
+			expect(cache.unpin('a')).toBe(true);
+			expect(cache.unpin('a')).toBe(false);
+			expect(cache.unpin('missing')).toBe(false);
+			expect([...cache.keys()]).toEqual(['c', 'd', 'a']);
+			cache.put('e', 5);
+			expect([...cache.keys()]).toEqual(['d', 'a', 'e']);
+			expect(cache.pinnedCount).toBe(0);
+		});
+
+		test('pinned entries are ordered by their use, after the other entries', () => {
+			const cache = new EvictingCache<string, number>(5);
+			cache.put('a', 1, { pinned: true });
+			cache.put('b', 2, { pinned: true });
+			cache.putAll([['c', 3], ['d', 4]]);
+			cache.get('a');
+
+			expect([...cache.keys()]).toEqual(['c', 'd', 'b', 'a']);
+			expect([...cache.keys({ reverse: true })]).toEqual(['a', 'b', 'd', 'c']);
+		});
+
+		test('putting a pinned key keeps its pin unless it is unpinned', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.put('a', 1, { pinned: true });
+			cache.put('a', 2);
+			expect(cache.pinnedCount).toBe(1);
+
+			cache.put('a', 3, { pinned: false });
+			expect(cache.pinnedCount).toBe(0);
+			expect(cache.getStats()).toMatchObject({ size: 1, pinned: 0 });
+		});
+
+		test('pinned entries are still deleted, invalidated, expired and cleared', () => {
+			vi.useFakeTimers();
+			try {
+				const dispose = vi.fn();
+				const cache = new EvictingCache<string, number>(5, { dispose });
+				cache.put('a', 1, { pinned: true });
+				cache.put('b', 2, { pinned: true, tags: ['tag'] });
+				cache.put('c', 3, { pinned: true, ttl: 1000 });
+				cache.put('d', 4, { pinned: true });
+				cache.put('e', 5);
+
+				expect(cache.delete('a')).toBe(true);
+				expect(cache.invalidateTag('tag')).toBe(1);
+				expect(cache.getStats()).toMatchObject({ size: 3, pinned: 2 });
+				vi.advanceTimersByTime(1000);
+				expect(cache.pinnedCount).toBe(1);
+				expect(cache.has('c')).toBe(false);
+
+				cache.clear();
+				expect(dispose.mock.calls.slice(-2)).toEqual([[5, 'e', 'clear'], [4, 'd', 'clear']]);
+				expect(cache.pinnedCount).toBe(0);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+
+		test('the cache exceeds its capacity when every entry is pinned', () => {
+			const cache = new EvictingCache<string, number>(2);
+			cache.put('a', 1, { pinned: true });
+			cache.put('b', 2, { pinned: true });
+			cache.put('c', 3);
+			cache.put('d', 4);
+
+			expect([...cache.keys()]).toEqual(['d', 'a', 'b']);
+
+			// Unpinning evicts until the cache fits again
+			cache.unpin('a');
+			expect([...cache.keys()]).toEqual(['a', 'b']);
+		});
+
+		test('the cache exceeds its maximum size when the pinned entries fill it', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 4, sizeCalculation: (value) => value.length });
+			cache.put('a', 'aaa', { pinned: true });
+			cache.put('b', 'bb');
+
+			expect([...cache.keys()]).toEqual(['b', 'a']);
+			expect(cache.calculatedSize).toBe(5);
+			cache.put('c', 'c');
+			expect([...cache.keys()]).toEqual(['c', 'a']);
+		});
+
+		test('puts that do not fit alongside the pinned entries can be rejected', () => {
+			const cache = new EvictingCache<string, number>(2, { pinnedOverflow: 'reject' });
+			cache.put('a', 1, { pinned: true });
+			cache.put('b', 2);
+			cache.put('c', 3, { pinned: true });
+
+			expect(() => cache.put('d', 4)).toThrow(RangeError);
+			expect(() => cache.put('d', 4, { pinned: true })).toThrow(RangeError);
+			expect([...cache.keys()]).toEqual(['a', 'c']);
+
+			// Replacing a pinned entry needs no more room
+			cache.put('a', 10);
+			cache.put('c', 30, { pinned: false });
+			cache.put('d', 4);
+			expect([...cache.keys()]).toEqual(['d', 'a']);
+		});
+
+		test('puts that exceed the maximum size alongside the pinned entries can be rejected', () => {
+			const cache = new EvictingCache<string, string>(10, { maxSize: 4, sizeCalculation: (value) => value.length, pinnedOverflow: 'reject' });
+			cache.put('a', 'aaa', { pinned: true });
+
+			expect(() => cache.put('b', 'bb')).toThrow(RangeError);
+			cache.put('b', 'b');
+			expect(cache.calculatedSize).toBe(4);
+		});
+
+		test('transactions that do not fit alongside the pinned entries can be rejected', () => {
+			const cache = new EvictingCache<string, number>(3, { pinnedOverflow: 'reject' });
+			cache.put('a', 1, { pinned: true });
+			cache.put('b', 2, { pinned: true });
+			cache.put('c', 3);
+
+			expect(() => cache.transaction((tx) => { tx.put('d', 4, { pinned: true }) })).not.toThrow();
+			expect(() => cache.transaction((tx) => { tx.put('e', 5) })).toThrow(RangeError);
+			expect(() => cache.transaction((tx) => {
+				tx.delete('d');
+				tx.put('e', 5, { pinned: true });
+				tx.put('f', 6, { pinned: true });
+			})).toThrow(RangeError);
+			expect([...cache.keys()]).toEqual(['a', 'b', 'd']);
+
+			// Unpinning and deleting in the same transaction makes room
+			cache.transaction((tx) => {
+				tx.put('a', 10, { pinned: false });
+				tx.delete('b');
+				tx.put('d', 40);
+				tx.put('e', 5);
+			});
+			expect([...cache.keys()]).toEqual(['a', 'e', 'd']);
+			expect(cache.pinnedCount).toBe(1);
+		});
+
+		test('pinned entries are not evicted by resize or shrink', () => {
+			const cache = new EvictingCache<string, number>(4);
+			cache.put('a', 1, { pinned: true });
+			cache.put('b', 2, { pinned: true });
+			cache.putAll([['c', 3], ['d', 4]]);
+
+			expect(cache.resize(1)).toBe(2);
+			expect([...cache.keys()]).toEqual(['a', 'b']);
+			cache.resize(4);
+			cache.put('c', 3);
+			expect(cache.shrink(1)).toBe(1);
+			expect(cache.size).toBe(2);
+		});
+
+		test('snapshots keep the pins', () => {
+			const cache = new EvictingCache<string, number>(3);
+			cache.put('a', 1, { pinned: true });
+			cache.put('b', 2);
+
+			const snapshot = cache.dump();
+			expect(snapshot.entries).toEqual([{ key: 'b', value: 2 }, { key: 'a', value: 1, pinned: true }]);
+
+			const restored = EvictingCache.from<string, number>(snapshot);
+			expect(restored.pinnedCount).toBe(1);
+			restored.putAll([['c', 3], ['d', 4], ['e', 5]]);
+			expect(restored.has('a')).toBe(true);
+		});
+	});
+
+	describe('batch loading', () => {
+		/** Resolves the length of every key, or `notFound` for keys starting with 'missing'. */
+		const lengths = (keys: string[]): Promise<(number | typeof notFound)[]> => Promise.resolve(keys.map((key) => key.startsWith('missing') ? notFound : key.length));
+
+		test('getAllOrLoad loads the missing keys with a single call', async () => {
+			const batchLoader = vi.fn(lengths);
+			const cache = new EvictingCache<string, number>(10);
+			cache.put('bb', 20);
+
+			const values = await cache.getAllOrLoad(['a', 'bb', 'ccc', 'a'], batchLoader, { ttl: 1000 });
+
+			expect([...values]).toEqual([['a', 1], ['bb', 20], ['ccc', 3]]);
+			expect(batchLoader.mock.calls).toEqual([[['a', 'ccc']]]);
+			expect([...cache.entries()]).toEqual([['bb', 20], ['a', 1], ['ccc', 3]]);
+			expect(cache.getStats()).toMatchObject({ hits: 1, misses: 2, loads: { successes: 2 } });
+			expect(await cache.getAllOrLoad([], batchLoader)).toEqual(new Map());
+			expect(batchLoader).toHaveBeenCalledTimes(1);
+		});
+
+		test('getAllOrLoad splits the keys into batches', async () => {
+			const batchLoader = vi.fn(lengths);
+			const cache = new EvictingCache<string, number>(10);
+
+			await cache.getAllOrLoad(['a', 'b', 'c'], batchLoader, { maxBatchSize: 2 });
+
+			expect(batchLoader.mock.calls).toEqual([[['a', 'b']], [['c']]]);
+			expect(() => cache.getAllOrLoad(['a'], batchLoader, { maxBatchSize: 0 })).toThrow(RangeError);
+			expect(() => cache.getAllOrLoad(['a'], batchLoader, { maxBatchSize: 1.5 })).toThrow(RangeError);
+		});
+
+		test('getAllOrLoad returns the error of each key that failed', async () => {
+			const failure = new Error('failed');
+			const cache = new EvictingCache<string, number>(10);
+
+			const values = await cache.getAllOrLoad(['a', 'b'], (keys) => Promise.resolve(keys.map((key) => key === 'a' ? failure : 2)));
+			expect(values).toEqual(new Map<string, number | Error>([['a', failure], ['b', 2]]));
+			expect(cache.has('a')).toBe(false);
+			expect(cache.getStats().loads).toMatchObject({ successes: 1, failures: 1 });
+
+			// A batch that fails fails every key of the batch
+			const rejected = await cache.getAllOrLoad(['c', 'd'], () => Promise.reject('unavailable'), { maxBatchSize: 1 });
+			expect([...rejected.keys()]).toEqual(['c', 'd']);
+			expect(rejected.get('c')).toBeInstanceOf(Error);
+			expect((rejected.get('c') as Error).cause).toBe('unavailable');
+
+			const incomplete = await cache.getAllOrLoad(['e', 'f'], () => Promise.resolve([1]));
+			expect(incomplete.get('e')).toBeInstanceOf(TypeError);
+			expect(incomplete.get('f')).toBeInstanceOf(TypeError);
+		});
+
+		test('getAllOrLoad leaves out keys that do not exist', async () => {
+			const batchLoader = vi.fn(lengths);
+			const cache = new EvictingCache<string, number>(10, { negativeCapacity: 10 });
+
+			expect(await cache.getAllOrLoad(['a', 'missing'], batchLoader)).toEqual(new Map([['a', 1]]));
+			expect(cache.tryGet('missing').absent).toBe(true);
+			expect(await cache.getAllOrLoad(['missing', 'bb'], batchLoader)).toEqual(new Map([['bb', 2]]));
+			expect(batchLoader.mock.calls).toEqual([[['a', 'missing']], [['bb']]]);
+		});
+
+		test('getAllOrLoad shares pending loads', async () => {
+			const batchLoader = vi.fn(lengths);
+			const cache = new EvictingCache<string, number>(10);
+			const pending = cache.getOrPutAsync('a', () => Promise.resolve(10));
+
+			expect(await cache.getAllOrLoad(['a', 'b'], batchLoader)).toEqual(new Map([['a', 10], ['b', 1]]));
+			expect(batchLoader.mock.calls).toEqual([[['b']]]);
+			expect(await pending).toBe(10);
+		});
+
+		test('loaded values follow the usual eviction rules', async () => {
+			const cache = new EvictingCache<string, number>(2);
+
+			expect((await cache.getAllOrLoad(['a', 'b', 'c'], lengths)).size).toBe(3);
+			expect([...cache.keys()]).toEqual(['b', 'c']);
+		});
+
+		test('loader merges the loads of the same turn into batches', async () => {
+			const batchLoader = vi.fn(lengths);
+			const cache = new EvictingCache<string, number>(10);
+			cache.put('cached', 0);
+			const { load } = cache.loader(batchLoader, { maxBatchSize: 2 });
+
+			const values = await Promise.all([
+				load('a'),
+				load('bb'),
+				load('a'),
+				load('cached'),
+				// Keys requested from promise callbacks join the batch too
+				Promise.resolve().then(() => load('ccc'))
+			]);
+
+			expect(values).toEqual([1, 2, 1, 0, 3]);
+			expect(batchLoader.mock.calls).toEqual([[['a', 'bb']], [['ccc']]]);
+			expect(cache.peek('ccc')).toBe(3);
+			expect(await load('a')).toBe(1);
+			expect(batchLoader).toHaveBeenCalledTimes(2);
+			expect(() => cache.loader(batchLoader, { maxBatchSize: -1 })).toThrow(RangeError);
+		});
+
+		test('loader rejects the keys that failed or do not exist', async () => {
+			const batchLoader = vi.fn((keys: string[]) => Promise.resolve(keys.map((key) => key === 'failing' ? new Error('failed') : key.startsWith('missing') ? notFound : key.length)));
+			const cache = new EvictingCache<string, number>(10, { negativeCapacity: 10 });
+			const { load } = cache.loader(batchLoader);
+
+			const [a, failing, missing] = await Promise.allSettled([load('a'), load('failing'), load('missing')]);
+			expect(a).toEqual({ status: 'fulfilled', value: 1 });
+			expect(failing).toMatchObject({ status: 'rejected', reason: new Error('failed') });
+			expect(missing).toMatchObject({ status: 'rejected', reason: { cause: notFound } });
+
+			await expect(load('missing')).rejects.toThrow(RangeError);
+			expect(batchLoader).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('refresh-ahead', () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		test('constructor with an invalid refreshAfter', () => {
+			expect(() => new EvictingCache<string, number>(3, { refreshAfter: -1 })).toThrow(RangeError);
+			expect(() => new EvictingCache<string, number>(3, { refreshAfter: Infinity })).toThrow(RangeError);
+		});
+
+		test('entries older than refreshAfter are reloaded in the background when they are read', async () => {
+			let version = 1;
+			const fetchMethod = vi.fn((key: string, staleValue: string | undefined) => Promise.resolve(`${key}${version}:${String(staleValue)}`));
+			const cache = new EvictingCache<string, string>(3, { fetchMethod, refreshAfter: 1000 });
+			cache.put('a', 'a0', { tags: ['tag'] });
+
+			vi.advanceTimersByTime(999);
+			expect(cache.get('a')).toBe('a0');
+			expect(fetchMethod).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(1);
+			version = 2;
+			expect(cache.get('a')).toBe('a0');
+			// Reads while the entry is being reloaded share the reload
+			expect(cache.tryGet('a')).toEqual({ found: true, value: 'a0' });
+			expect(cache.peek('a')).toBe('a0');
+			await vi.waitFor(() => expect(cache.peek('a')).toBe('a2:a0'));
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+
+			// The reloaded entry keeps its tags and is not refreshed again until it is old enough
+			expect(cache.get('a')).toBe('a2:a0');
+			expect(fetchMethod).toHaveBeenCalledTimes(1);
+			expect(cache.invalidateTag('tag')).toBe(1);
+		});
+
+		test('entries keep their value if the reload fails', async () => {
+			const fetchMethod = vi.fn().mockRejectedValueOnce(new Error('failed')).mockResolvedValue(2);
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, refreshAfter: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+
+			expect(cache.get('a')).toBe(1);
+			await vi.waitFor(() => expect(cache.getStats().loads.failures).toBe(1));
+			expect(cache.get('a')).toBe(1);
+			await vi.waitFor(() => expect(cache.peek('a')).toBe(2));
+			expect(fetchMethod).toHaveBeenCalledTimes(2);
+		});
+
+		test('frequently read entries never expire', async () => {
+			const fetchMethod = vi.fn((key: string) => Promise.resolve(key.length));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, ttl: 1000, refreshAfter: 600 });
+			cache.put('a', 1);
+
+			for (let i = 0; i < 5; i++) {
+				vi.advanceTimersByTime(700);
+				expect(cache.get('a')).toBe(1);
+				await vi.waitFor(() => expect(fetchMethod).toHaveBeenCalledTimes(i + 1));
+			}
+			expect(cache.getStats()).toMatchObject({ misses: 0, evictions: { expire: 0 } });
+		});
+
+		test('reloaded entries keep the time-to-live they were put with', async () => {
+			const fetchMethod = vi.fn(() => Promise.resolve(2));
+			const cache = new EvictingCache<string, number>(3, { fetchMethod, refreshAfter: 1000 });
+			cache.put('a', 1, { ttl: 5000 });
+
+			vi.advanceTimersByTime(1000);
+			expect(cache.get('a')).toBe(1);
+			await vi.waitFor(() => expect(cache.peek('a')).toBe(2));
+
+			vi.advanceTimersByTime(5000);
+			expect(cache.has('a')).toBe(false);
+		});
+
+		test('getOrPut and getOrPutAsync reload with their producer', async () => {
+			const cache = new EvictingCache<string, number>(3, { refreshAfter: 1000 });
+			const producer = vi.fn(() => 2);
+			cache.put('a', 1);
+			cache.put('b', 1);
+			vi.advanceTimersByTime(1000);
+
+			expect(cache.getOrPut('a', producer, { ttl: 5000 })).toBe(1);
+			expect(await cache.getOrPutAsync('b', () => Promise.resolve(3))).toBe(1);
+			await vi.waitFor(() => expect(cache.peek('a')).toBe(2));
+			await vi.waitFor(() => expect(cache.peek('b')).toBe(3));
+			expect(producer).toHaveBeenCalledTimes(1);
+
+			vi.advanceTimersByTime(5000);
+			expect(cache.has('a')).toBe(false);
+		});
+
+		test('errors thrown by the callbacks of a reload are passed to onError', async () => {
+			const onError = vi.fn();
+			const cache = new EvictingCache<string, number>(3, { refreshAfter: 1000, onError });
+			cache.put('a', 1);
+			cache.on('set', () => { throw new Error('listener failed') });
+			vi.advanceTimersByTime(1000);
+
+			expect(cache.getOrPut('a', () => 2)).toBe(1);
+			await vi.waitFor(() => expect(cache.peek('a')).toBe(2));
+			expect(onError).toHaveBeenCalledWith(new Error('listener failed'));
+		});
+
+		test('entries are not refreshed without a loader', () => {
+			const cache = new EvictingCache<string, number>(3, { refreshAfter: 1000 });
+			cache.put('a', 1);
+			vi.advanceTimersByTime(1000);
+
+			expect(cache.get('a')).toBe(1);
+			expect(cache.getStats().loads.successes).toBe(0);
+		});
+	});
 });
@@ -0,0 +1,226 @@
+import { createEvictionPolicy, type EvictionPolicy, type EvictionPolicyName } from '../src/eviction-policies';
+import { describe, test, expect } from 'vitest';
+
+type Entry = { id: string };
+
+/**
+ * Creates a policy tracking an entry for each key, in order.
+ *
+ * @param name The name of the policy.
+ * @param capacity The capacity of the cache.
+ * @param keys The keys to insert.
+ * @returns The policy and its entries.
+ */
+function track(name: EvictionPolicyName, capacity: number, keys: string[]): [EvictionPolicy<Entry>, Record<string, Entry>] {
+	const policy = createEvictionPolicy<Entry>(name, capacity);
+	const entries: Record<string, Entry> = {};
+	for (const key of keys) {
+		entries[key] = { id: key };
+		policy.insert(entries[key]);
+	}
+
+	return [policy, entries];
+}
+
+/**
+ * Returns the keys of the entries tracked by a policy, in eviction order.
+ *
+ * @param policy The policy.
+ * @returns The keys.
+ */
+function keys(policy: EvictionPolicy<Entry>): string[] {
+	return [...policy.entries()].map(({ id }) => id);
+}
+
+describe('createEvictionPolicy', () => {
+	test('rejects unknown policies', () => {
+		expect(() => createEvictionPolicy('random' as EvictionPolicyName, 10)).toThrow(RangeError);
+	});
+
+	test.each<EvictionPolicyName>(['lru', 'fifo', 'lfu', 'slru', 'tinylfu'])('%s tracks, removes and clears entries', (name) => {
+		const [policy, entries] = track(name, 10, ['a', 'b', 'c']);
+		expect(keys(policy).sort()).toEqual(['a', 'b', 'c']);
+		policy.remove(entries.b!);
+		policy.remove({ id: 'missing' });
+		expect(keys(policy).sort()).toEqual(['a', 'c']);
+		policy.clear();
+		expect(keys(policy)).toEqual([]);
+		expect(policy.victim()).toBeUndefined();
+	});
+
+	test.each<EvictionPolicyName>(['lru', 'fifo', 'lfu', 'slru', 'tinylfu'])('%s iterates in reverse eviction order', (name) => {
+		const [policy, entries] = track(name, 4, ['a', 'b', 'c', 'd', 'e']);
+		policy.touch(entries.b!);
+		policy.touch(entries.b!);
+		policy.touch(entries.d!);
+
+		expect([...policy.reversed()].map(({ id }) => id)).toEqual(keys(policy).reverse());
+	});
+});
+
+describe('lru', () => {
+	test('evicts the least recently used entry', () => {
+		const [policy, entries] = track('lru', 3, ['a', 'b', 'c']);
+		policy.touch(entries.a!);
+		expect(keys(policy)).toEqual(['b', 'c', 'a']);
+		expect(policy.victim()).toBe(entries.b);
+	});
+});
+
+describe('fifo', () => {
+	test('evicts the oldest entry regardless of reads', () => {
+		const [policy, entries] = track('fifo', 3, ['a', 'b', 'c']);
+		policy.touch(entries.a!);
+		expect(keys(policy)).toEqual(['a', 'b', 'c']);
+		expect(policy.victim()).toBe(entries.a);
+	});
+});
+
+describe('lfu', () => {
+	test('evicts the least frequently used entry', () => {
+		const [policy, entries] = track('lfu', 3, ['a', 'b', 'c']);
+		policy.touch(entries.a!);
+		policy.touch(entries.a!);
+		policy.touch(entries.b!);
+		expect(keys(policy)).toEqual(['c', 'b', 'a']);
+		expect(policy.victim()).toBe(entries.c);
+	});
+
+	test('evicts the least recently added entry on a tie', () => {
+		const [policy, entries] = track('lfu', 3, ['a', 'b']);
+		policy.touch(entries.b!);
+		policy.touch(entries.a!);
+		expect(keys(policy)).toEqual(['b', 'a']);
+		expect(policy.victim()).toBe(entries.b);
+	});
+
+	test('finds the next least frequency after a removal', () => {
+		const [policy, entries] = track('lfu', 3, ['a', 'b', 'c']);
+		policy.touch(entries.b!);
+		policy.touch(entries.c!);
+		policy.touch(entries.c!);
+		policy.remove(entries.a!);
+		expect(policy.victim()).toBe(entries.b);
+		policy.remove(entries.b!);
+		expect(policy.victim()).toBe(entries.c);
+		policy.remove(entries.c!);
+		expect(policy.victim()).toBeUndefined();
+	});
+
+	test('ignores reads of untracked entries', () => {
+		const [policy] = track('lfu', 3, ['a']);
+		policy.touch({ id: 'missing' });
+		expect(keys(policy)).toEqual(['a']);
+	});
+});
+
+describe('slru', () => {
+	test('protects entries that are read again', () => {
+		const [policy, entries] = track('slru', 5, ['a', 'b', 'c']);
+		policy.touch(entries.a!);
+		expect(keys(policy)).toEqual(['b', 'c', 'a']);
+		expect(policy.victim()).toBe(entries.b);
+		policy.remove(entries.b!);
+		policy.remove(entries.c!);
+		expect(policy.victim()).toBe(entries.a);
+	});
+
+	test('demotes protected entries when the protected segment is full', () => {
+		// The protected segment holds 80% of the capacity
+		const [policy, entries] = track('slru', 2, ['a', 'b', 'c']);
+		policy.touch(entries.a!);
+		policy.touch(entries.b!);
+		expect(keys(policy)).toEqual(['c', 'a', 'b']);
+		policy.touch(entries.b!);
+		policy.touch(entries.a!);
+		expect(keys(policy)).toEqual(['c', 'b', 'a']);
+	});
+
+	test('demotes protected entries when it is resized', () => {
+		const [policy, entries] = track('slru', 5, ['a', 'b', 'c']);
+		policy.touch(entries.a!);
+		policy.touch(entries.b!);
+		policy.touch(entries.c!);
+		expect(policy.victim()).toBe(entries.a);
+
+		policy.resize(1);
+		policy.remove(entries.a!);
+		expect(policy.victim()).toBe(entries.b);
+		expect(keys(policy)).toEqual(['b', 'c']);
+	});
+});
+
+describe('tinylfu', () => {
+	test('fills the window before evicting from it', () => {
+		const [policy, entries] = track('tinylfu', 1, []);
+		expect(policy.victim()).toBeUndefined();
+		entries.a = { id: 'a' };
+		policy.insert(entries.a);
+		expect(policy.victim()).toBe(entries.a);
+	});
+
+	test('evicts the window candidate when it is used less than the main victim', () => {
+		const [policy, entries] = track('tinylfu', 3, ['a', 'b', 'c']);
+		// The window holds one entry, 'a' and 'b' have moved into probation
+		expect(keys(policy)).toEqual(['c', 'a', 'b']);
+		policy.touch(entries.a!);
+		expect(policy.victim()).toBe(entries.c);
+	});
+
+	test('evicts the main victim when the window candidate is used more', () => {
+		const [policy, entries] = track('tinylfu', 3, ['a', 'b', 'c']);
+		policy.touch(entries.c!);
+		policy.touch(entries.c!);
+		expect(policy.victim()).toBe(entries.a);
+		policy.remove(entries.a!);
+
+		// The window candidate moves into probation to make room for the new entry
+		entries.d = { id: 'd' };
+		policy.insert(entries.d);
+		expect(keys(policy)).toEqual(['d', 'b', 'c']);
+	});
+
+	test('protects entries that are read again', () => {
+		const [policy, entries] = track('tinylfu', 10, ['a', 'b']);
+		policy.touch(entries.a!);
+		policy.touch(entries.b!);
+		expect(keys(policy)).toEqual(['b', 'a']);
+		policy.touch(entries.a!);
+		expect(keys(policy)).toEqual(['b', 'a']);
+	});
+
+	test('moves entries out of the window when it is resized', () => {
+		const [policy] = track('tinylfu', 200, ['a', 'b', 'c']);
+		// The window holds two entries
+		expect(keys(policy)).toEqual(['b', 'c', 'a']);
+		policy.resize(10);
+		expect(keys(policy)).toEqual(['c', 'a', 'b']);
+	});
+
+	test('keeps the frequencies when resized unless the sketch grows', () => {
+		const [policy, entries] = track('tinylfu', 3, ['a', 'b', 'c']);
+		policy.touch(entries.c!);
+		policy.touch(entries.c!);
+		policy.resize(4);
+		expect(policy.victim()).toBe(entries.a);
+
+		policy.resize(100);
+		expect(policy.victim()).toBe(entries.c);
+	});
+
+	test('evicts from the window when the main segments are empty', () => {
+		const [policy, entries] = track('tinylfu', 200, ['a', 'b']);
+		expect(keys(policy)).toEqual(['a', 'b']);
+		expect(policy.victim()).toBe(entries.a);
+	});
+
+	test('frequencies age over time', () => {
+		const [policy, entries] = track('tinylfu', 3, ['a', 'b', 'c']);
+		for (let i = 0; i < 10; i++) { policy.touch(entries.c!) }
+		expect(policy.victim()).toBe(entries.a);
+
+		// Enough uses of other keys halve every frequency, until 'c' is no longer used more than 'a'
+		for (let i = 0; i < 1000; i++) { policy.touch(entries.a!) }
+		expect(policy.victim()).toBe(entries.c);
+	});
+});
@@ -0,0 +1,283 @@
+import { EvictingCache, jsonCodec } from '../src/evicting-cache';
+import { FilePersistence } from '../src/file-persistence';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+
+describe('FilePersistence', () => {
+	let directory: string;
+	let path: string;
+
+	beforeEach(async () => {
+		directory = await mkdtemp(join(tmpdir(), 'evicting-cache-'));
+		path = join(directory, 'cache.json');
+	});
+
+	afterEach(async () => {
+		await rm(directory, { recursive: true, force: true });
+	});
+
+	/**
+	 * Reads the lines of the log file.
+	 *
+	 * @returns The parsed lines, starting with the header.
+	 */
+	async function readLog(): Promise<unknown[]> {
+		return (await readFile(`${path}.log`, 'utf8')).split('\n').filter(Boolean).map((line) => JSON.parse(line) as unknown);
+	}
+
+	test('validates options', () => {
+		const cache = new EvictingCache<string, number>(3);
+		expect(() => new FilePersistence(cache, path, { flushInterval: -1 })).toThrow(RangeError);
+		expect(() => new FilePersistence(cache, path, { snapshotInterval: Infinity })).toThrow(RangeError);
+		expect(() => new FilePersistence(cache, path, { compactAfter: 1.5 })).toThrow(RangeError);
+	});
+
+	test('starts empty when there are no files and creates them', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path);
+
+		expect(cache.size).toBe(0);
+		expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ generation: 1, snapshot: { version: 1, capacity: 3, policy: 'lru', entries: [] } });
+		expect(await readLog()).toEqual([{ generation: 1 }]);
+
+		await persistence.close();
+	});
+
+	test('logs puts, deletes, evictions and clears and replays them on restore', async () => {
+		const cache = new EvictingCache<string, number>(2);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+
+		cache.put('a', 1);
+		cache.put('b', 2);
+		cache.put('c', 3);
+		cache.delete('b');
+		cache.put('d', 4, { ttl: 60000 });
+		await persistence.flush();
+
+		expect(await readLog()).toEqual([
+			{ generation: 1 },
+			{ op: 'set', key: 'a', value: 1 },
+			{ op: 'set', key: 'b', value: 2 },
+			{ op: 'delete', key: 'a' },
+			{ op: 'set', key: 'c', value: 3 },
+			{ op: 'delete', key: 'b' },
+			{ op: 'set', key: 'd', value: 4, expiresAt: expect.any(Number) as number }
+		]);
+
+		const restored = new EvictingCache<string, number>(2);
+		expect(await new FilePersistence(restored, path).restore()).toBe(2);
+		expect([...restored.entries()]).toEqual([['c', 3], ['d', 4]]);
+
+		cache.clear();
+		await persistence.close();
+
+		// Changes made after closing are not logged
+		cache.put('e', 5);
+		await persistence.flush();
+
+		const cleared = new EvictingCache<string, number>(2);
+		expect(await new FilePersistence(cleared, path).restore()).toBe(0);
+	});
+
+	test('logs tags and pins and replays them on restore', async () => {
+		const cache = new EvictingCache<string, number>(2);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+
+		cache.put('a', 1, { tags: ['x'], pinned: true });
+		cache.put('b', 2);
+		cache.pin('b');
+		cache.unpin('a');
+		cache.pin('missing');
+		await persistence.flush();
+
+		expect(await readLog()).toEqual([
+			{ generation: 1 },
+			{ op: 'set', key: 'a', value: 1, tags: ['x'], pinned: true },
+			{ op: 'set', key: 'b', value: 2 },
+			{ op: 'pin', key: 'b' },
+			{ op: 'unpin', key: 'a' }
+		]);
+
+		const restored = new EvictingCache<string, number>(2);
+		expect(await new FilePersistence(restored, path).restore()).toBe(2);
+		expect(restored.dump().entries).toEqual([{ key: 'a', value: 1, tags: ['x'] }, { key: 'b', value: 2, pinned: true }]);
+
+		await persistence.close();
+	});
+
+	test('restoring compacts the log into a new snapshot', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+		cache.put('a', 1);
+		await persistence.close();
+
+		const restored = new EvictingCache<string, number>(3);
+		await FilePersistence.open(restored, path).then((reopened) => reopened.close());
+
+		expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ generation: 2, snapshot: { version: 1, capacity: 3, policy: 'lru', entries: [{ key: 'a', value: 1 }] } });
+		expect(await readLog()).toEqual([{ generation: 2 }]);
+	});
+
+	test('snapshot() writes the whole cache and starts a new log', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+		cache.put('a', 1);
+		cache.put('b', 2);
+		await persistence.snapshot();
+		cache.put('c', 3);
+		await persistence.close();
+
+		expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({ generation: 2, snapshot: { version: 1, capacity: 3, policy: 'lru', entries: [{ key: 'a', value: 1 }, { key: 'b', value: 2 }] } });
+		expect(await readLog()).toEqual([{ generation: 2 }, { op: 'set', key: 'c', value: 3 }]);
+
+		const restored = new EvictingCache<string, number>(3);
+		await new FilePersistence(restored, path).restore();
+		expect([...restored.keys()]).toEqual(['a', 'b', 'c']);
+	});
+
+	test('compacts the log once it reaches compactAfter operations', async () => {
+		const cache = new EvictingCache<number, number>(10);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0, compactAfter: 3 });
+		for (let i = 0; i < 4; i++) { cache.put(i, i) }
+		await persistence.close();
+
+		const { generation, snapshot } = JSON.parse(await readFile(path, 'utf8')) as { generation: number; snapshot: { entries: unknown[] } };
+		expect(generation).toBe(2);
+		expect(snapshot.entries.length).toBeGreaterThanOrEqual(3);
+
+		const restored = new EvictingCache<number, number>(10);
+		await new FilePersistence(restored, path).restore();
+		expect([...restored.keys()]).toEqual([0, 1, 2, 3]);
+	});
+
+	test('ignores a log line that was only partly written', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+		cache.put('a', 1);
+		cache.put('b', 2);
+		await persistence.close();
+
+		const log = await readFile(`${path}.log`, 'utf8');
+		await writeFile(`${path}.log`, log.slice(0, -8));
+
+		const restored = new EvictingCache<string, number>(3);
+		expect(await new FilePersistence(restored, path).restore()).toBe(1);
+		expect([...restored.keys()]).toEqual(['a']);
+	});
+
+	test('ignores a log of a previous generation', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+		cache.put('a', 1);
+		cache.delete('a');
+		await persistence.close();
+
+		// As if the process stopped after writing a snapshot but before replacing the log
+		const log = await readFile(`${path}.log`, 'utf8');
+		cache.put('b', 2);
+		await persistence.snapshot();
+		await writeFile(`${path}.log`, `${log}${JSON.stringify({ op: 'set', key: 'c', value: 3 })}\n`);
+
+		const restored = new EvictingCache<string, number>(3);
+		await new FilePersistence(restored, path).restore();
+		expect([...restored.keys()]).toEqual(['b']);
+	});
+
+	test('skips logged entries that have expired', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		try {
+			const cache = new EvictingCache<string, number>(3);
+			const persistence = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 0 });
+			await persistence.snapshot();
+			cache.put('a', 1, { ttl: 100 });
+			cache.put('b', 2, { ttl: 1000 });
+			await persistence.close();
+
+			vi.setSystemTime(Date.now() + 500);
+			const restored = new EvictingCache<string, number>(3);
+			await new FilePersistence(restored, path).restore();
+			expect([...restored.keys()]).toEqual(['b']);
+
+			vi.setSystemTime(Date.now() + 500);
+			expect(restored.size).toBe(0);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('codecs convert keys and values that are not JSON-safe', async () => {
+		const cache = new EvictingCache<bigint, Map<string, Date>>(3);
+		const options = { keyCodec: jsonCodec, valueCodec: jsonCodec, flushInterval: 0, snapshotInterval: 0 };
+		const persistence = await FilePersistence.open(cache, path, options);
+		cache.put(1n, new Map([['a', new Date(1)]]));
+		await persistence.snapshot();
+		cache.put(2n, new Map([['b', new Date(2)]]));
+		cache.delete(1n);
+		await persistence.close();
+
+		const restored = new EvictingCache<bigint, Map<string, Date>>(3);
+		await new FilePersistence(restored, path, options).restore();
+		expect([...restored.entries()]).toEqual([[2n, new Map([['b', new Date(2)]])]]);
+	});
+
+	test('writes in the background on the configured intervals', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 10, snapshotInterval: 0 });
+		cache.put('a', 1);
+		await vi.waitFor(async () => expect(await readLog()).toEqual([{ generation: 1 }, { op: 'set', key: 'a', value: 1 }]));
+		await persistence.close();
+
+		const snapshotting = await FilePersistence.open(cache, path, { flushInterval: 0, snapshotInterval: 10 });
+		cache.put('b', 2);
+		await vi.waitFor(async () => expect(JSON.parse(await readFile(path, 'utf8'))).toMatchObject({ snapshot: { entries: [{ key: 'a' }, { key: 'b' }] } }));
+		await snapshotting.close();
+	});
+
+	test('recovers with a new snapshot after a write fails', async () => {
+		const errors: unknown[] = [];
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 10, snapshotInterval: 0, onError: (error) => errors.push(error) });
+
+		await rm(directory, { recursive: true });
+		cache.put('a', 1);
+		await vi.waitFor(() => expect(errors.length).toBeGreaterThanOrEqual(2));
+		await expect(persistence.flush()).rejects.toThrow();
+
+		await mkdir(directory);
+		cache.put('b', 2);
+		await persistence.close();
+
+		// The log was replaced by a new snapshot once the directory was back
+		expect((await readLog())[0]).toEqual({ generation: 2 });
+		const restored = new EvictingCache<string, number>(3);
+		await new FilePersistence(restored, path).restore();
+		expect([...restored.keys()]).toEqual(['a', 'b']);
+	});
+
+	test('background failures are ignored without onError', async () => {
+		const cache = new EvictingCache<string, number>(3);
+		const persistence = await FilePersistence.open(cache, path, { flushInterval: 10, snapshotInterval: 0 });
+		const flush = vi.spyOn(persistence, 'flush');
+
+		await rm(directory, { recursive: true });
+		cache.put('a', 1);
+		await vi.waitFor(() => expect(flush.mock.calls.length).toBeGreaterThanOrEqual(2));
+		await mkdir(directory);
+		await persistence.close();
+	});
+
+	test('restore() must be called before start()', async () => {
+		const persistence = new FilePersistence(new EvictingCache<string, number>(3), path, { flushInterval: 0, snapshotInterval: 0 });
+		persistence.start();
+		persistence.start();
+		await expect(persistence.restore()).rejects.toThrow('restore() must be called before start()');
+		await persistence.close();
+	});
+
+	test('rethrows errors other than a missing file', async () => {
+		await mkdir(path);
+		await expect(new FilePersistence(new EvictingCache<string, number>(3), path).restore()).rejects.toThrow();
+	});
+});
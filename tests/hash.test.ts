@@ -0,0 +1,32 @@
+import { hashKey } from '../src/hash';
+import { describe, test, expect } from 'vitest';
+
+describe('hashKey', () => {
+	test('returns unsigned 32-bit integers', () => {
+		for (const key of ['a', 1, -1, 1.5, 10n, true, null, undefined, Symbol('a'), {}, [], () => {}]) {
+			const hash = hashKey(key);
+			expect(Number.isInteger(hash)).toBe(true);
+			expect(hash).toBeGreaterThanOrEqual(0);
+			expect(hash).toBeLessThan(2 ** 32);
+		}
+	});
+
+	test('hashes primitives by value', () => {
+		expect(hashKey('key')).toBe(hashKey('key'));
+		expect(hashKey(42)).toBe(hashKey(42));
+		expect(hashKey(0)).toBe(hashKey(-0));
+		expect(hashKey(42n)).toBe(hashKey(42n));
+	});
+
+	test('distinguishes primitives of different types', () => {
+		expect(hashKey('1')).not.toBe(hashKey(1));
+		expect(hashKey(1)).not.toBe(hashKey(1n));
+		expect(hashKey('true')).not.toBe(hashKey(true));
+	});
+
+	test('hashes objects by identity', () => {
+		const key = { id: 1 };
+		expect(hashKey(key)).toBe(hashKey(key));
+		expect(hashKey({ id: 1 })).not.toBe(hashKey({ id: 1 }));
+	});
+});
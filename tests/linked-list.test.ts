@@ -0,0 +1,233 @@
+import { LinkedList, type ListNode } from '../src/linked-list';
+import { describe, test, expect } from 'vitest';
+
+type Node = ListNode & { name: string };
+
+/**
+ * Creates a list holding a node for each name, in order.
+ *
+ * @param names The names of the nodes.
+ * @returns The list and its nodes.
+ */
+function create(...names: string[]): [LinkedList<Node>, Node[]] {
+	const list = new LinkedList<Node>();
+	const nodes = names.map((name) => ({ name }));
+	for (const node of nodes) { list.add(node) }
+
+	return [list, nodes];
+}
+
+/**
+ * Returns the names of the nodes of a list, in order.
+ *
+ * @param list The list.
+ * @returns The names.
+ */
+function names(list: LinkedList<Node>): string[] {
+	return Array.from(list, ({ name }) => name);
+}
+
+describe('LinkedList', () => {
+	test('adds entries to the end', () => {
+		const [list, [a]] = create('a', 'b', 'c');
+
+		expect(names(list)).toEqual([ 'a', 'b', 'c' ]);
+		expect(list.size).toBe(3);
+		expect(list.first).toBe(a);
+		expect(list.has(a!)).toBe(true);
+		expect(new LinkedList().first).toBeUndefined();
+	});
+
+	test('deletes entries', () => {
+		const [list, [a, b, c]] = create('a', 'b', 'c');
+
+		expect(list.delete(b!)).toBe(true);
+		expect(list.delete(b!)).toBe(false);
+		expect(list.has(b!)).toBe(false);
+		expect(names(list)).toEqual([ 'a', 'c' ]);
+		expect(list.delete(a!)).toBe(true);
+		expect(list.delete(c!)).toBe(true);
+		expect(names(list)).toEqual([]);
+		expect(list.size).toBe(0);
+		expect(list.first).toBeUndefined();
+
+		list.add(b!);
+		expect(names(list)).toEqual([ 'b' ]);
+	});
+
+	test('moves entries to the end', () => {
+		const [list, [a, b, c]] = create('a', 'b', 'c');
+
+		list.moveToEnd(a!);
+		expect(names(list)).toEqual([ 'b', 'c', 'a' ]);
+		list.moveToEnd(c!);
+		expect(names(list)).toEqual([ 'b', 'a', 'c' ]);
+		// Moving the last entry changes nothing
+		list.moveToEnd(c!);
+		expect(names(list)).toEqual([ 'b', 'a', 'c' ]);
+		list.moveToEnd(b!);
+		expect(names(list)).toEqual([ 'a', 'c', 'b' ]);
+		expect(list.size).toBe(3);
+	});
+
+	test('adding an entry removes it from its previous list', () => {
+		const [first, [a]] = create('a', 'b');
+		const [second] = create('c');
+		second.add(a!);
+
+		expect(names(first)).toEqual([ 'b' ]);
+		expect(names(second)).toEqual([ 'c', 'a' ]);
+		expect(first.size).toBe(1);
+		expect(second.size).toBe(2);
+		expect(first.delete(a!)).toBe(false);
+	});
+
+	test('clears every entry', () => {
+		const [list, [a]] = create('a', 'b');
+		list.clear();
+
+		expect(names(list)).toEqual([]);
+		expect(list.size).toBe(0);
+		expect(list.has(a!)).toBe(false);
+		expect(list.delete(a!)).toBe(false);
+	});
+
+	test('iterates in reverse', () => {
+		const [list, [a, b, c]] = create('a', 'b', 'c', 'd');
+		list.moveToEnd(a!);
+		expect(Array.from(list.reversed(), ({ name }) => name)).toEqual([ 'a', 'd', 'c', 'b' ]);
+
+		const visited: string[] = [];
+		for (const { name } of list.reversed()) {
+			visited.push(name);
+			if (name === 'a') {
+				list.delete(c!);
+				list.delete(b!);
+			}
+		}
+		expect(visited).toEqual([ 'a', 'd' ]);
+	});
+
+	test('iterators continue after the current entry is removed or moved', () => {
+		const [list, [a, b, c]] = create('a', 'b', 'c', 'd');
+		const visited: string[] = [];
+		for (const { name } of list) {
+			visited.push(name);
+			if (name === 'a') {
+				list.delete(a!);
+				list.delete(b!);
+			}
+			// Moving the current entry to the end visits it again, as with a Set
+			if (name === 'c' && visited.length === 2) { list.moveToEnd(c!) }
+		}
+		expect(visited).toEqual([ 'a', 'c', 'd', 'c' ]);
+
+		const [other, [, x, y]] = create('w', 'x', 'y', 'z');
+		const reversed: string[] = [];
+		for (const { name } of other.reversed()) {
+			reversed.push(name);
+			if (name === 'y') {
+				// The removed entry leads back into the list through the entry removed after it
+				other.delete(y!);
+				other.delete(x!);
+			}
+		}
+		expect(reversed).toEqual([ 'z', 'y', 'w' ]);
+
+		const [moved, [, m]] = create('l', 'm', 'n');
+		const movedVisits: string[] = [];
+		for (const { name } of moved.reversed()) {
+			movedVisits.push(name);
+			if (name === 'm') { moved.moveToEnd(m!) }
+		}
+		expect(movedVisits).toEqual([ 'n', 'm', 'l' ]);
+	});
+
+	test('iterators continue after the current entry moves to another list', () => {
+		const [list, [, b, c]] = create('a', 'b', 'c');
+		const [other] = create('x');
+		const visited: string[] = [];
+		for (const { name } of list) {
+			visited.push(name);
+			if (name === 'b') { other.add(b!) }
+		}
+		expect(visited).toEqual([ 'a', 'b', 'c' ]);
+
+		const reversed: string[] = [];
+		for (const { name } of list.reversed()) {
+			reversed.push(name);
+			if (name === 'c') { other.add(c!) }
+		}
+		expect(reversed).toEqual([ 'c', 'a' ]);
+		expect(names(other)).toEqual([ 'x', 'b', 'c' ]);
+	});
+
+	test('iterators continue after the current entry is removed and the next one moves', () => {
+		const [list, [a, b]] = create('a', 'b', 'c', 'd');
+		const [other] = create('x');
+		const visited: string[] = [];
+		for (const { name } of list) {
+			visited.push(name);
+			if (name === 'a') {
+				list.delete(a!);
+				list.moveToEnd(b!);
+			}
+		}
+		// As with a Set, the moved entry is visited again at its new position
+		expect(visited).toEqual([ 'a', 'c', 'd', 'b' ]);
+
+		const moved: string[] = [];
+		for (const { name } of list) {
+			moved.push(name);
+			if (name === 'c') {
+				list.delete(list.first!);
+				other.add(list.first!);
+			}
+		}
+		expect(moved).toEqual([ 'c', 'b' ]);
+
+		const [reversible, [, , y, z]] = create('w', 'x', 'y', 'z');
+		const reversed: string[] = [];
+		for (const { name } of reversible.reversed()) {
+			reversed.push(name);
+			if (name === 'z') {
+				reversible.delete(z!);
+				other.add(y!);
+			}
+		}
+		expect(reversed).toEqual([ 'z', 'x', 'w' ]);
+	});
+
+	test('live iterators visit entries moved behind the current entry again', () => {
+		const [list, [, b]] = create('a', 'b', 'c');
+		const visited: string[] = [];
+		for (const { name } of list) {
+			visited.push(name);
+			if (name === 'a') { list.moveToEnd(b!) }
+		}
+		expect(visited).toEqual([ 'a', 'c', 'b' ]);
+	});
+
+	test('iterators skip entries that are removed while iterating', () => {
+		const [list, [, b, c]] = create('a', 'b', 'c', 'd');
+		const visited: string[] = [];
+		for (const { name } of list) {
+			visited.push(name);
+			if (name === 'a') {
+				list.delete(b!);
+				list.delete(c!);
+			}
+		}
+
+		expect(visited).toEqual([ 'a', 'd' ]);
+
+		const [other, [x]] = create('x', 'y');
+		const remaining: string[] = [];
+		for (const { name } of other) {
+			remaining.push(name);
+			// Removing the current entry continues with the next one
+			if (name === 'x') { other.delete(x!) }
+		}
+		expect(remaining).toEqual([ 'x', 'y' ]);
+	});
+});
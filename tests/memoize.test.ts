@@ -0,0 +1,165 @@
+import { memoize, memoized } from '../src/evicting-cache';
+import { describe, test, expect, vi } from 'vitest';
+
+describe('memoize', () => {
+	test('calls the function once per argument', () => {
+		const square = vi.fn((n: number) => n * n);
+		const memoizedSquare = memoize(square);
+
+		expect(memoizedSquare(3)).toBe(9);
+		expect(memoizedSquare(3)).toBe(9);
+		expect(memoizedSquare(4)).toBe(16);
+		expect(square).toHaveBeenCalledTimes(2);
+		expect(memoizedSquare.cache.getStats()).toMatchObject({ hits: 1, misses: 2 });
+	});
+
+	test('uses a stable serialization of every argument for functions with several parameters', () => {
+		const format = vi.fn((name: string, options: { upper?: boolean; suffix?: string }) => `${options.upper ? name.toUpperCase() : name}${options.suffix ?? ''}`);
+		const memoizedFormat = memoize(format);
+
+		expect(memoizedFormat('a', { upper: true, suffix: '!' })).toBe('A!');
+		expect(memoizedFormat('a', { suffix: '!', upper: true })).toBe('A!');
+		expect(memoizedFormat('a', { upper: false })).toBe('a');
+		expect(format).toHaveBeenCalledTimes(2);
+		expect([...memoizedFormat.cache.keys()]).toEqual(['["a",{"suffix":"!","upper":true}]', '["a",{"upper":false}]']);
+	});
+
+	test('uses a custom key resolver', () => {
+		const load = vi.fn((user: { id: number; name: string }) => user.name);
+		const memoizedLoad = memoize(load, { key: (user) => user.id });
+
+		expect(memoizedLoad({ id: 1, name: 'a' })).toBe('a');
+		expect(memoizedLoad({ id: 1, name: 'b' })).toBe('a');
+		expect(memoizedLoad.cache.has(1)).toBe(true);
+	});
+
+	test('passes the cache options through', () => {
+		vi.useFakeTimers();
+		try {
+			const fn = vi.fn((n: number) => n);
+			const memoizedFn = memoize(fn, { capacity: 2, ttl: 100 });
+			memoizedFn(1);
+			memoizedFn(2);
+			memoizedFn(3);
+			expect(memoizedFn.cache.capacity).toBe(2);
+			expect([...memoizedFn.cache.keys()]).toEqual([2, 3]);
+
+			vi.advanceTimersByTime(100);
+			memoizedFn(3);
+			expect(fn).toHaveBeenCalledTimes(4);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('caches null and undefined results', () => {
+		const fn = vi.fn((n: number) => (n > 0 ? null : undefined));
+		const memoizedFn = memoize(fn);
+		expect(memoizedFn(1)).toBeNull();
+		expect(memoizedFn(1)).toBeNull();
+		expect(memoizedFn(0)).toBeUndefined();
+		expect(memoizedFn(0)).toBeUndefined();
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	test('does not cache calls that throw', () => {
+		const fn = vi.fn().mockImplementationOnce(() => { throw new Error('failed') }).mockReturnValue(1);
+		const memoizedFn = memoize((n: number) => fn(n) as number);
+		expect(() => memoizedFn(1)).toThrow('failed');
+		expect(memoizedFn(1)).toBe(1);
+		expect(memoizedFn(1)).toBe(1);
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	test('shares pending promises and removes rejected ones', async () => {
+		const fetchUser = vi.fn((id: number) => Promise.resolve({ id }));
+		const memoizedFetch = memoize(fetchUser);
+		const [a, b] = await Promise.all([memoizedFetch(1), memoizedFetch(1)]);
+		expect(a).toBe(b);
+		expect(fetchUser).toHaveBeenCalledTimes(1);
+
+		fetchUser.mockRejectedValueOnce(new Error('offline'));
+		await expect(memoizedFetch(2)).rejects.toThrow('offline');
+		expect(memoizedFetch.cache.has(2)).toBe(false);
+		expect(await memoizedFetch(2)).toEqual({ id: 2 });
+	});
+
+	test('rejected promises do not remove newer results', async () => {
+		let reject!: (error: Error) => void;
+		const memoizedFn = memoize((_key: string) => new Promise<number>((_, rejectPromise) => { reject = rejectPromise }));
+		const pending = memoizedFn('a');
+		memoizedFn.cache.put('a', Promise.resolve(1));
+		reject(new Error('failed'));
+
+		await expect(pending).rejects.toThrow('failed');
+		expect(await memoizedFn('a')).toBe(1);
+	});
+
+	test('keeps this', () => {
+		const counter = { step: 2, next: memoize(function(this: { step: number }, n: number) { return n + this.step }) };
+		expect(counter.next(1)).toBe(3);
+	});
+
+	test('the cache can be cleared', () => {
+		const fn = vi.fn((n: number) => n);
+		const memoizedFn = memoize(fn);
+		memoizedFn(1);
+		memoizedFn.cache.clear();
+		memoizedFn(1);
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('memoized', () => {
+	/**
+	 * Applies a method decorator by hand, as the test runner does not compile decorators.
+	 *
+	 * @param target The class.
+	 * @param name The name of the method.
+	 * @param decorator The decorator.
+	 */
+	function decorate<T extends object>(target: { prototype: T }, name: keyof T & string, decorator: (method: never, context: ClassMethodDecoratorContext<T>) => unknown): void {
+		const method = target.prototype[name] as never;
+		const context = { kind: 'method', name, static: false, private: false } as ClassMethodDecoratorContext<T>;
+		Object.defineProperty(target.prototype, name, { value: decorator(method, context) });
+	}
+
+	test('memoizes a method per instance', () => {
+		const calls = vi.fn();
+
+		class Calculator {
+			constructor(private readonly factor: number) {}
+
+			multiply(n: number): number {
+				calls(this.factor, n);
+				return n * this.factor;
+			}
+		}
+		decorate(Calculator, 'multiply', memoized({ capacity: 10 }));
+
+		const double = new Calculator(2);
+		const triple = new Calculator(3);
+		expect(double.multiply(5)).toBe(10);
+		expect(double.multiply(5)).toBe(10);
+		expect(triple.multiply(5)).toBe(15);
+		expect(calls.mock.calls).toEqual([[2, 5], [3, 5]]);
+	});
+
+	test('memoizes methods with several parameters', () => {
+		class Formatter {
+			calls = 0;
+
+			format(value: number, unit: string): string {
+				this.calls++;
+				return `${value} ${unit}`;
+			}
+		}
+		decorate(Formatter, 'format', memoized());
+
+		const formatter = new Formatter();
+		formatter.format(1, 'kg');
+		formatter.format(1, 'kg');
+		formatter.format(1, 'g');
+		expect(formatter.calls).toBe(2);
+	});
+});
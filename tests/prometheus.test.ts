@@ -0,0 +1,97 @@
+import { EvictingCache, prometheusContentType, renderPrometheus } from '../src/evicting-cache';
+import { describe, test, expect, vi } from 'vitest';
+
+describe('renderPrometheus', () => {
+	test('renders the statistics of every cache', () => {
+		vi.useFakeTimers();
+		try {
+			const users = new EvictingCache<string, number>(2);
+			users.put('a', 1);
+			users.put('b', 2);
+			users.put('c', 3);
+			users.get('c');
+			users.get('a');
+			users.delete('b');
+			users.getOrPut('d', () => {
+				vi.advanceTimersByTime(250);
+				return 4;
+			});
+			users.pin('d');
+			const sessions = new EvictingCache<string, number>(10);
+
+			expect(renderPrometheus({ users, sessions })).toBe([
+				'# HELP evicting_cache_hits_total Lookups that found a value.',
+				'# TYPE evicting_cache_hits_total counter',
+				'evicting_cache_hits_total{cache="users"} 1',
+				'evicting_cache_hits_total{cache="sessions"} 0',
+				'# HELP evicting_cache_misses_total Lookups that did not find a value.',
+				'# TYPE evicting_cache_misses_total counter',
+				'evicting_cache_misses_total{cache="users"} 2',
+				'evicting_cache_misses_total{cache="sessions"} 0',
+				'# HELP evicting_cache_hit_ratio Ratio of hits to lookups since the statistics were reset.',
+				'# TYPE evicting_cache_hit_ratio gauge',
+				`evicting_cache_hit_ratio{cache="users"} ${1 / 3}`,
+				'evicting_cache_hit_ratio{cache="sessions"} 0',
+				'# HELP evicting_cache_recent_hit_ratio Ratio of hits to lookups over the most recent lookups.',
+				'# TYPE evicting_cache_recent_hit_ratio gauge',
+				`evicting_cache_recent_hit_ratio{cache="users"} ${1 / 3}`,
+				'evicting_cache_recent_hit_ratio{cache="sessions"} 0',
+				'# HELP evicting_cache_sets_total Values put into the cache.',
+				'# TYPE evicting_cache_sets_total counter',
+				'evicting_cache_sets_total{cache="users"} 4',
+				'evicting_cache_sets_total{cache="sessions"} 0',
+				'# HELP evicting_cache_deletes_total Keys deleted from the cache.',
+				'# TYPE evicting_cache_deletes_total counter',
+				'evicting_cache_deletes_total{cache="users"} 1',
+				'evicting_cache_deletes_total{cache="sessions"} 0',
+				'# HELP evicting_cache_evictions_total Entries removed to make room for other entries or because they had expired.',
+				'# TYPE evicting_cache_evictions_total counter',
+				'evicting_cache_evictions_total{cache="users",reason="evict"} 1',
+				'evicting_cache_evictions_total{cache="users",reason="expire"} 0',
+				'evicting_cache_evictions_total{cache="sessions",reason="evict"} 0',
+				'evicting_cache_evictions_total{cache="sessions",reason="expire"} 0',
+				'# HELP evicting_cache_loads_total Values loaded into the cache, by whether the load succeeded.',
+				'# TYPE evicting_cache_loads_total counter',
+				'evicting_cache_loads_total{cache="users",result="success"} 1',
+				'evicting_cache_loads_total{cache="users",result="failure"} 0',
+				'evicting_cache_loads_total{cache="sessions",result="success"} 0',
+				'evicting_cache_loads_total{cache="sessions",result="failure"} 0',
+				'# HELP evicting_cache_load_duration_seconds Time spent loading values into the cache.',
+				'# TYPE evicting_cache_load_duration_seconds summary',
+				'evicting_cache_load_duration_seconds_sum{cache="users"} 0.25',
+				'evicting_cache_load_duration_seconds_count{cache="users"} 1',
+				'evicting_cache_load_duration_seconds_sum{cache="sessions"} 0',
+				'evicting_cache_load_duration_seconds_count{cache="sessions"} 0',
+				'# HELP evicting_cache_size Entries in the cache.',
+				'# TYPE evicting_cache_size gauge',
+				'evicting_cache_size{cache="users"} 2',
+				'evicting_cache_size{cache="sessions"} 0',
+				'# HELP evicting_cache_pinned Entries in the cache that are exempt from eviction.',
+				'# TYPE evicting_cache_pinned gauge',
+				'evicting_cache_pinned{cache="users"} 1',
+				'evicting_cache_pinned{cache="sessions"} 0',
+				'# HELP evicting_cache_capacity Maximum number of entries in the cache.',
+				'# TYPE evicting_cache_capacity gauge',
+				'evicting_cache_capacity{cache="users"} 2',
+				'evicting_cache_capacity{cache="sessions"} 10',
+				''
+			].join('\n'));
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('accepts a Map of caches and a prefix', () => {
+		const caches = new Map([['a "quoted"\\name\n', new EvictingCache<string, number>(5)]]);
+		const output = renderPrometheus(caches, { prefix: 'app_cache' });
+
+		expect(output).toContain('# TYPE app_cache_capacity gauge\n');
+		expect(output).toContain('app_cache_capacity{cache="a \\"quoted\\"\\\\name\\n"} 5\n');
+	});
+
+	test('rejects invalid prefixes', () => {
+		expect(() => renderPrometheus({}, { prefix: 'not-valid' })).toThrow(RangeError);
+		expect(renderPrometheus({})).toContain('# TYPE evicting_cache_hits_total counter\n');
+		expect(prometheusContentType).toBe('text/plain; version=0.0.4; charset=utf-8');
+	});
+});
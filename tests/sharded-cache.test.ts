@@ -0,0 +1,286 @@
+import { EvictingCache, notFound, ShardedEvictingCache, stableSerialize } from '../src/evicting-cache';
+import { describe, test, expect, vi } from 'vitest';
+
+describe('ShardedEvictingCache', () => {
+	test('validates options', () => {
+		expect(() => new ShardedEvictingCache(10, { shards: 0 })).toThrow(RangeError);
+		expect(() => new ShardedEvictingCache(10, { shards: 1.5 })).toThrow(RangeError);
+		expect(() => new ShardedEvictingCache(3, { shards: 4 })).toThrow(RangeError);
+		expect(() => new ShardedEvictingCache(100.5, { shards: 4 })).toThrow('capacity must be an integer');
+		expect(() => new ShardedEvictingCache(10, { shards: 2, maxSize: -1 })).toThrow(RangeError);
+	});
+
+	test('splits the capacity between the shards', () => {
+		const cache = new ShardedEvictingCache<string, number>(10, { shards: 4 });
+
+		expect(cache.shards).toHaveLength(4);
+		expect(cache.shards.every((shard) => shard instanceof EvictingCache)).toBe(true);
+		// The remainder goes to the first shards
+		expect(cache.shards.map((shard) => shard.capacity)).toEqual([ 3, 3, 2, 2 ]);
+		expect(cache.capacity).toBe(10);
+		expect(new ShardedEvictingCache().shards).toHaveLength(16);
+		expect(Object.prototype.toString.call(cache)).toBe('[object ShardedEvictingCache]');
+	});
+
+	test('routes keys to their shard', () => {
+		const cache = new ShardedEvictingCache<number, string>(8, { shards: 2, hash: (key) => key });
+		cache.put(1, 'one');
+		cache.put(2, 'two');
+
+		expect(cache.shardFor(1)).toBe(cache.shards[1]);
+		expect(cache.shards[0]!.peek(2)).toBe('two');
+		expect(cache.shards[1]!.peek(1)).toBe('one');
+		expect(cache.get(1)).toBe('one');
+		expect(cache.peek(2)).toBe('two');
+		expect(cache.has(2)).toBe(true);
+		expect(cache.get(3)).toBeNull();
+		expect(cache.size).toBe(2);
+		expect(cache.delete(1)).toBe(true);
+		expect(cache.delete(1)).toBe(false);
+		expect(cache.size).toBe(1);
+	});
+
+	test('hashes with the keyHasher option by default', () => {
+		const cache = new ShardedEvictingCache<{ id: number }, string>(64, { keyHasher: stableSerialize });
+		cache.put({ id: 1 }, 'a');
+
+		expect(cache.shardFor({ id: 1 })).toBe(cache.shardFor({ id: 1 }));
+		expect(cache.get({ id: 1 })).toBe('a');
+	});
+
+	test('evicts within a shard only', () => {
+		const cache = new ShardedEvictingCache<number, number>(4, { shards: 2, hash: (key) => key });
+		// Even keys go to the first shard, which holds 2 entries
+		cache.putAll([ [ 1, 1 ], [ 2, 2 ], [ 4, 4 ], [ 6, 6 ] ]);
+
+		expect(cache.has(1)).toBe(true);
+		expect(cache.has(2)).toBe(false);
+		expect([ ...cache.keys() ]).toEqual([ 4, 6, 1 ]);
+	});
+
+	test('pins entries in their shard', () => {
+		const cache = new ShardedEvictingCache<number, number>(4, { shards: 2, hash: (key) => key });
+		cache.put(2, 2, { pinned: true });
+		cache.put(4, 4);
+		expect(cache.pin(4)).toBe(true);
+		cache.put(6, 6);
+
+		expect(cache.has(2) && cache.has(4)).toBe(true);
+		expect(cache.pinnedCount).toBe(2);
+		expect(cache.getStats()).toMatchObject({ size: 3, pinned: 2 });
+		expect(cache.unpin(4)).toBe(true);
+		expect(cache.has(6)).toBe(false);
+		expect(cache.pinnedCount).toBe(1);
+	});
+
+		test('batch operations', () => {
+		const cache = new ShardedEvictingCache<string, number>(16, { shards: 4 });
+		cache.putAll([ [ 'a', 1 ], [ 'b', 2 ], [ 'c', 3 ] ], { ttl: 0 });
+
+		expect(cache.getAll([ 'a', 'c', 'missing' ])).toEqual(new Map([ [ 'a', 1 ], [ 'c', 3 ] ]));
+		expect(cache.deleteAll([ 'a', 'b', 'missing' ])).toBe(2);
+		expect([ ...cache.keys() ]).toEqual([ 'c' ]);
+	});
+
+	test('iterators go through every shard', () => {
+		const cache = new ShardedEvictingCache<number, string>(8, { shards: 2, hash: (key) => key });
+		cache.putAll([ [ 1, 'one' ], [ 2, 'two' ], [ 3, 'three' ] ]);
+
+		expect([ ...cache.keys() ]).toEqual([ 2, 1, 3 ]);
+		expect([ ...cache.values() ]).toEqual([ 'two', 'one', 'three' ]);
+		expect([ ...cache.entries() ]).toEqual([ [ 2, 'two' ], [ 1, 'one' ], [ 3, 'three' ] ]);
+		expect([ ...cache ]).toEqual([ ...cache.entries() ]);
+
+		const visited: [number, string][] = [];
+		const context = {};
+		cache.forEach(function(this: unknown, value, key, instance) {
+			expect(this).toBe(context);
+			expect(instance).toBe(cache);
+			visited.push([ key, value ]);
+		}, context);
+		expect(visited).toEqual([ ...cache.entries() ]);
+	});
+
+	test('iteration options and paging', () => {
+		const cache = new ShardedEvictingCache<number, string>(8, { shards: 2, hash: (key) => key });
+		cache.putAll([ [ 1, 'one' ], [ 2, 'two' ], [ 3, 'three' ], [ 4, 'four' ] ]);
+
+		expect([ ...cache.keys({ reverse: true }) ]).toEqual([ 3, 1, 4, 2 ]);
+		expect([ ...cache.values({ reverse: true }) ]).toEqual([ 'three', 'one', 'four', 'two' ]);
+
+		const visited: number[] = [];
+		for (const key of cache.keys({ snapshot: true })) {
+			visited.push(key);
+			cache.delete(3);
+		}
+		expect(visited).toEqual([ 2, 4, 1, 3 ]);
+
+		const first = cache.page({ limit: 2 });
+		expect(first.entries).toEqual([ [ 2, 'two' ], [ 4, 'four' ] ]);
+		expect(cache.page({ limit: 2, cursor: first.cursor })).toEqual({ entries: [ [ 1, 'one' ] ] });
+	});
+
+	test('loading', async () => {
+		const cache = new ShardedEvictingCache<string, number>(8, { shards: 2, fetchMethod: (key) => Promise.resolve(key.length) });
+
+		expect(cache.getOrPut('a', () => 1)).toBe(1);
+		expect(cache.getOrPut('a', () => 2)).toBe(1);
+		expect(await cache.getOrPutAsync('b', () => Promise.resolve(2))).toBe(2);
+		expect(await cache.fetch('abc')).toBe(3);
+		expect(cache.peek('abc')).toBe(3);
+		expect(await cache.tryFetch('abcd')).toEqual({ found: true, value: 4 });
+	});
+
+	test('nullish values and negative caching', async () => {
+		const fetchMethod = vi.fn(() => Promise.resolve(notFound));
+		const cache = new ShardedEvictingCache<string, number | null>(8, { shards: 2, fetchMethod, negativeCapacity: 3 });
+		cache.put('null', null);
+
+		expect(cache.tryGet('null')).toEqual({ found: true, value: null });
+		expect(cache.getAll([ 'null', 'missing' ])).toEqual(new Map([ [ 'null', null ] ]));
+		expect(await cache.tryFetch('missing')).toEqual({ found: false, value: undefined, absent: true });
+		await cache.tryFetch('missing');
+		expect(fetchMethod).toHaveBeenCalledTimes(1);
+	});
+
+	test('tags, expiry and clearing', () => {
+		vi.useFakeTimers();
+		try {
+			const cache = new ShardedEvictingCache<string, number>(16, { shards: 4 });
+			cache.put('a', 1, { tags: [ 'x' ] });
+			cache.put('b', 2, { tags: [ 'x', 'y' ] });
+			cache.put('c', 3, { tags: [ 'y' ] });
+			cache.put('d', 4, { ttl: 1000 });
+
+			expect(cache.invalidateTag('x')).toBe(2);
+			expect(cache.invalidateTags([ 'y' ])).toBe(1);
+			expect([ ...cache.keys() ]).toEqual([ 'd' ]);
+
+			vi.advanceTimersByTime(1001);
+			expect(cache.purgeStale()).toBe(1);
+
+			cache.putAll([ [ 'a', 1 ], [ 'b', 2 ] ]);
+			cache.clear();
+			expect(cache.size).toBe(0);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('resize and shrink', () => {
+		const cache = new ShardedEvictingCache<number, number>(8, { shards: 2, hash: (key) => key });
+		cache.putAll([ 1, 2, 3, 4, 5, 6, 7, 8 ].map((key) => [ key, key ]));
+
+		expect(cache.resize(5)).toBe(3);
+		expect(cache.shards.map((shard) => shard.capacity)).toEqual([ 3, 2 ]);
+		expect(() => cache.resize(1)).toThrow(RangeError);
+		expect(() => cache.resize(10.5)).toThrow('capacity must be an integer');
+
+		cache.capacity = 6;
+		expect(cache.capacity).toBe(6);
+		expect(cache.shrink(0.5)).toBe(3);
+		expect(cache.size).toBe(2);
+	});
+
+	test('listens to every shard', () => {
+		const cache = new ShardedEvictingCache<number, number>(8, { shards: 2, hash: (key) => key });
+		const listener = vi.fn();
+		const unsubscribe = cache.on('set', listener);
+		cache.put(1, 1);
+		cache.put(2, 2);
+
+		expect(listener.mock.calls.map(([ event ]) => (event as { key: number }).key)).toEqual([ 1, 2 ]);
+
+		unsubscribe();
+		cache.put(3, 3);
+		expect(listener).toHaveBeenCalledTimes(2);
+	});
+
+	test('removes listeners from every shard', () => {
+		const cache = new ShardedEvictingCache<number, number>(8, { shards: 2, hash: (key) => key });
+		const listener = vi.fn();
+		const handler = { handleEvent: vi.fn() };
+		cache.on('set', listener);
+		cache.addEventListener('set', handler, { once: true });
+		cache.put(1, 1);
+		cache.put(2, 2);
+		cache.put(3, 3);
+
+		// The handler was called once by each shard
+		expect(handler.handleEvent).toHaveBeenCalledTimes(2);
+		cache.off('set', listener);
+		cache.put(4, 4);
+		expect(listener).toHaveBeenCalledTimes(3);
+
+		cache.addEventListener('delete', listener);
+		cache.removeEventListener('delete', listener);
+		cache.delete(4);
+		expect(listener).toHaveBeenCalledTimes(3);
+	});
+
+	test('evicts from the shard holding the most entries', () => {
+		const cache = new ShardedEvictingCache<number, number>(8, { shards: 2, hash: (key) => key });
+		cache.putAll([ [ 1, 1 ], [ 2, 2 ], [ 3, 3 ], [ 5, 5 ] ]);
+		cache.pin(1);
+		cache.pin(3);
+
+		expect(cache.evict()).toBe(true);
+		expect([ ...cache.keys() ]).toEqual([ 2, 1, 3 ]);
+		// Every entry of the odd shard is pinned, so the even shard gives up its entry
+		expect(cache.evict()).toBe(true);
+		expect(cache.evict()).toBe(false);
+		expect([ ...cache.keys() ]).toEqual([ 1, 3 ]);
+	});
+
+	test('limits the size of an entry to the maxSize of a shard', async () => {
+		const cache = new ShardedEvictingCache<string, string>(8, { shards: 2, maxSize: 10, sizeCalculation: (value) => value.length });
+		cache.put('a', 'abcde');
+
+		expect(() => cache.put('b', 'abcdef')).toThrow(RangeError);
+		expect(() => cache.getOrPut('b', () => 'abcdef')).toThrow(RangeError);
+		await expect(cache.getOrPutAsync('b', () => Promise.resolve('abcdef'))).rejects.toThrow(RangeError);
+		expect(cache.getOrPut('b', () => 'b')).toBe('b');
+		expect(await cache.getOrPutAsync('c', () => Promise.resolve('c'))).toBe('c');
+		expect(cache.peek('b')).toBe('b');
+	});
+
+	test('combines the statistics of the shards', async () => {
+		const cache = new ShardedEvictingCache<number, number>(4, { shards: 2, hash: (key) => key });
+		const empty = cache.getStats();
+
+		expect(empty.hitRate).toBe(0);
+		expect(empty.recentHitRate).toBe(0);
+		expect(empty.loads.averageTime).toBe(0);
+		expect(empty.capacity).toBe(4);
+
+		cache.putAll([ [ 1, 1 ], [ 2, 2 ], [ 4, 4 ], [ 6, 6 ] ]);
+		cache.get(1);
+		cache.get(2);
+		cache.get(4);
+		cache.get(3);
+		cache.delete(1);
+		await cache.getOrPutAsync(5, () => Promise.resolve(5));
+		await expect(cache.getOrPutAsync(7, () => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+
+		const stats = cache.getStats();
+		const shardStats = cache.shards.map((shard) => shard.getStats());
+		expect(stats).toMatchObject({
+			hits: 2,
+			misses: 4,
+			hitRate: 2 / 6,
+			sets: 5,
+			deletes: 1,
+			evictions: { evict: 1, expire: 0 },
+			loads: { successes: 1, failures: 1 },
+			size: 3,
+			capacity: 4
+		});
+		expect(stats.loads.totalTime).toBe(shardStats[0]!.loads.totalTime + shardStats[1]!.loads.totalTime);
+		expect(stats.loads.averageTime).toBe(stats.loads.totalTime / 2);
+		// Weighted by the lookups of each shard
+		expect(stats.recentHitRate).toBeCloseTo((shardStats[0]!.recentHitRate * 2 + shardStats[1]!.recentHitRate * 4) / 6);
+
+		cache.resetStats();
+		expect(cache.getStats()).toMatchObject({ hits: 0, misses: 0, sets: 0 });
+	});
+});
@@ -0,0 +1,46 @@
+import { stableSerialize } from '../src/stable-serialize';
+import { describe, test, expect } from 'vitest';
+
+describe('stableSerialize', () => {
+	test('serializes primitives', () => {
+		expect(stableSerialize('a')).toBe('"a"');
+		expect(stableSerialize(1)).toBe('1');
+		expect(stableSerialize(NaN)).toBe('NaN');
+		expect(stableSerialize(10n)).toBe('10n');
+		expect(stableSerialize(true)).toBe('true');
+		expect(stableSerialize(null)).toBe('null');
+		expect(stableSerialize(undefined)).toBe('undefined');
+	});
+
+	test('distinguishes values that JSON does not', () => {
+		const values = ['1', 1, 1n, '"1"', undefined, null, 'null', NaN, Infinity, new Date(1), 1, [1], new Set([1]), new Map([[1, 1]]), { 0: 1 }];
+		const serialized = new Set(values.map(stableSerialize));
+		// 1 appears twice
+		expect(serialized.size).toBe(values.length - 1);
+	});
+
+	test('ignores the order of object keys and of Map and Set entries', () => {
+		expect(stableSerialize({ a: 1, b: { c: 2, d: 3 } })).toBe(stableSerialize({ b: { d: 3, c: 2 }, a: 1 }));
+		expect(stableSerialize(new Map([['a', 1], ['b', 2]]))).toBe(stableSerialize(new Map([['b', 2], ['a', 1]])));
+		expect(stableSerialize(new Set(['a', 'b']))).toBe(stableSerialize(new Set(['b', 'a'])));
+		expect(stableSerialize([1, 2])).not.toBe(stableSerialize([2, 1]));
+	});
+
+	test('serializes nested values', () => {
+		expect(stableSerialize([{ b: [1n], a: new Date(0) }, new Map([[{ id: 1 }, new Set([undefined])]])]))
+			.toBe('[{"a":Date(0),"b":[1n]},Map{{"id":1}:Set[undefined]}]');
+	});
+
+	test('allows repeated values that are not circular', () => {
+		const shared = { id: 1 };
+		expect(stableSerialize([shared, shared])).toBe('[{"id":1},{"id":1}]');
+	});
+
+	test('rejects values that cannot be serialized', () => {
+		const circular: Record<string, unknown> = {};
+		circular.self = circular;
+		expect(() => stableSerialize(circular)).toThrow('Cannot serialize a circular structure');
+		expect(() => stableSerialize([Symbol('a')])).toThrow('Cannot serialize a symbol');
+		expect(() => stableSerialize({ fn: () => {} })).toThrow('Cannot serialize a function');
+	});
+});
@@ -0,0 +1,252 @@
+import { EvictingCache, MemoryStore, TieredCache, type AsyncStore } from '../src/evicting-cache';
+import { describe, test, expect, vi } from 'vitest';
+
+describe('TieredCache', () => {
+	test('validates options', () => {
+		const l1 = new EvictingCache<string, number>(2);
+		const l2 = new MemoryStore<string, number>();
+		// @ts-expect-error Testing an invalid write mode
+		expect(() => new TieredCache(l1, l2, { writeMode: 'write-around' })).toThrow(RangeError);
+		expect(() => new TieredCache(l1, l2, { flushInterval: -1 })).toThrow(RangeError);
+	});
+
+	test('reads fall through to the second tier and promote hits', async () => {
+		const l1 = new EvictingCache<string, number>(2);
+		const l2 = new MemoryStore<string, number>();
+		await l2.set('a', 1);
+		const cache = new TieredCache(l1, l2);
+
+		expect(await cache.get('a')).toBe(1);
+		expect(l1.peek('a')).toBe(1);
+		expect(await cache.get('a')).toBe(1);
+		expect(await cache.get('missing')).toBeUndefined();
+
+		expect(cache.getStats()).toEqual({
+			hits: 2,
+			misses: 1,
+			hitRate: 2 / 3,
+			l1: { hits: 1, misses: 2, hitRate: 1 / 3 },
+			l2: { hits: 1, misses: 1, hitRate: 0.5 }
+		});
+
+		cache.resetStats();
+		expect(cache.getStats()).toEqual({ hits: 0, misses: 0, hitRate: 0, l1: { hits: 0, misses: 0, hitRate: 0 }, l2: { hits: 0, misses: 0, hitRate: 0 } });
+		expect(Object.prototype.toString.call(cache)).toBe('[object TieredCache]');
+	});
+
+	test('concurrent reads share a single read of the second tier', async () => {
+		const l2 = new MemoryStore<string, number>();
+		await l2.set('a', 1);
+		const get = vi.spyOn(l2, 'get');
+		const cache = new TieredCache(new EvictingCache<string, number>(2), l2);
+
+		expect(await Promise.all([cache.get('a'), cache.get('a')])).toEqual([1, 1]);
+		expect(get).toHaveBeenCalledTimes(1);
+		expect(cache.getStats().l2).toEqual({ hits: 2, misses: 0, hitRate: 1 });
+	});
+
+	test('values written while a read is pending are not overwritten by it', async () => {
+		const l1 = new EvictingCache<string, number>(2);
+		const l2 = new MemoryStore<string, number>();
+		await l2.set('a', 1);
+		const cache = new TieredCache(l1, l2);
+
+		const read = cache.get('a');
+		await cache.set('a', 2);
+		expect(await read).toBe(1);
+		expect(l1.peek('a')).toBe(2);
+
+		l1.delete('a');
+		const reread = cache.get('a');
+		await cache.delete('a');
+		// The read completed before the delete, but its value is not promoted
+		expect(await reread).toBe(2);
+		expect(l1.has('a')).toBe(false);
+	});
+
+	test('write-through writes both tiers', async () => {
+		const l1 = new EvictingCache<string, number>(2);
+		const l2 = new MemoryStore<string, number>();
+		const cache = new TieredCache(l1, l2);
+
+		await cache.set('a', 1);
+		expect(l1.peek('a')).toBe(1);
+		expect(await l2.get('a')).toBe(1);
+		expect(cache.pendingWrites).toBe(0);
+
+		await cache.delete('a');
+		expect(l1.has('a')).toBe(false);
+		expect(l2.size).toBe(0);
+	});
+
+	test('write-back writes the second tier on flush', async () => {
+		const l1 = new EvictingCache<string, number>(1);
+		const l2 = new MemoryStore<string, number>();
+		const cache = new TieredCache(l1, l2, { writeMode: 'write-back', flushInterval: 0 });
+
+		await cache.set('a', 1);
+		await cache.set('b', 2);
+		await cache.set('c', 3);
+		await cache.delete('c');
+		expect(l2.size).toBe(0);
+		expect(cache.pendingWrites).toBe(2);
+
+		// 'a' was evicted from the first tier before it was written back
+		expect(await cache.get('a')).toBe(1);
+
+		await cache.flush();
+		expect(cache.pendingWrites).toBe(0);
+		expect(await l2.get('a')).toBe(1);
+		expect(await l2.get('b')).toBe(2);
+		await cache.close();
+	});
+
+	test('write-back flushes on an interval', async () => {
+		vi.useFakeTimers();
+		try {
+			const l2 = new MemoryStore<string, number>();
+			const cache = new TieredCache(new EvictingCache<string, number>(2), l2, { writeMode: 'write-back', flushInterval: 100 });
+
+			await cache.set('a', 1);
+			await vi.advanceTimersByTimeAsync(100);
+			expect(await l2.get('a')).toBe(1);
+			await cache.close();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('failed write-back writes are retried', async () => {
+		vi.useFakeTimers();
+		try {
+			const l2 = new MemoryStore<string, number>();
+			const set = vi.spyOn(l2, 'set').mockRejectedValueOnce(new Error('offline'));
+			const onError = vi.fn();
+			const cache = new TieredCache(new EvictingCache<string, number>(2), l2, { writeMode: 'write-back', flushInterval: 100, onError });
+
+			await cache.set('a', 1);
+			await vi.advanceTimersByTimeAsync(100);
+			expect(onError).toHaveBeenCalledWith(new Error('offline'));
+			expect(cache.pendingWrites).toBe(1);
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(set).toHaveBeenCalledTimes(2);
+			expect(await l2.get('a')).toBe(1);
+			expect(cache.pendingWrites).toBe(0);
+			await cache.close();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	test('failed writes do not overwrite newer pending writes', async () => {
+		const l2 = new MemoryStore<string, number>();
+		const cache = new TieredCache(new EvictingCache<string, number>(2), l2, { writeMode: 'write-back', flushInterval: 0 });
+		let rejectWrite!: (error: Error) => void;
+		vi.spyOn(l2, 'set')
+			.mockReturnValueOnce(new Promise((_, reject) => { rejectWrite = reject }))
+			.mockRejectedValueOnce(new Error('second'));
+
+		await cache.set('a', 1);
+		await cache.set('b', 1);
+		const flushed = cache.flush();
+		await cache.set('a', 2);
+		rejectWrite(new Error('first'));
+
+		await expect(flushed).rejects.toThrow(AggregateError);
+		expect(cache.pendingWrites).toBe(2);
+		await cache.flush();
+		expect(await l2.get('a')).toBe(2);
+		expect(await l2.get('b')).toBe(1);
+	});
+
+	test('failed writes of keys deleted during the flush are not retried', async () => {
+		const l2 = new MemoryStore<string, number>();
+		const cache = new TieredCache(new EvictingCache<string, number>(2), l2, { writeMode: 'write-back', flushInterval: 0 });
+		let rejectWrite!: (error: Error) => void;
+		const set = vi.spyOn(l2, 'set').mockReturnValueOnce(new Promise((_, reject) => { rejectWrite = reject }));
+
+		await cache.set('a', 1);
+		const flushed = cache.flush();
+		await cache.delete('a');
+		rejectWrite(new Error('offline'));
+
+		await expect(flushed).rejects.toThrow('offline');
+		expect(cache.pendingWrites).toBe(0);
+		await cache.flush();
+		expect(set).toHaveBeenCalledTimes(1);
+		expect(await cache.get('a')).toBeUndefined();
+	});
+
+	test('flush rethrows a single failed write', async () => {
+		const l2 = new MemoryStore<string, number>();
+		vi.spyOn(l2, 'set').mockRejectedValueOnce(new Error('offline'));
+		const cache = new TieredCache(new EvictingCache<string, number>(2), l2, { writeMode: 'write-back', flushInterval: 0 });
+
+		await cache.set('a', 1);
+		await expect(cache.flush()).rejects.toThrow('offline');
+	});
+
+	test('evictions are demoted to the second tier', async () => {
+		const l1 = new EvictingCache<string, number>(1, { ttl: 1000 });
+		const store = new Map<string, number>();
+		const l2: AsyncStore<string, number> = {
+			get: (key) => Promise.resolve(store.get(key)),
+			set: (key, value) => {
+				store.set(key, value);
+				return Promise.resolve();
+			},
+			delete: (key) => Promise.resolve(void store.delete(key))
+		};
+		const cache = new TieredCache(l1, l2, { demoteEvictions: true });
+
+		// Values put into the first tier directly are only written to the second tier when they are evicted
+		l1.put('a', 1);
+		l1.put('b', 2);
+		expect(store.get('a')).toBe(1);
+		expect(store.has('b')).toBe(false);
+
+		await cache.close();
+		l1.put('c', 3);
+		expect(store.has('b')).toBe(false);
+	});
+
+	test('failed demotions are ignored without onError', async () => {
+		const l1 = new EvictingCache<string, number>(1);
+		const l2 = new MemoryStore<string, number>();
+		const set = vi.spyOn(l2, 'set').mockRejectedValueOnce(new Error('offline'));
+		new TieredCache(l1, l2, { demoteEvictions: true });
+
+		l1.put('a', 1);
+		l1.put('b', 2);
+		await Promise.resolve();
+		expect(set).toHaveBeenCalledTimes(1);
+		expect(l2.size).toBe(0);
+	});
+
+	test('expired and pending values are not demoted', async () => {
+		vi.useFakeTimers();
+		try {
+			const l1 = new EvictingCache<string, number>(1, { ttl: 100 });
+			const l2 = new MemoryStore<string, number>();
+			const set = vi.spyOn(l2, 'set');
+			const onError = vi.fn();
+			const cache = new TieredCache(l1, l2, { writeMode: 'write-back', flushInterval: 0, demoteEvictions: true, onError });
+
+			await cache.set('a', 1);
+			l1.put('b', 2);
+			expect(set).not.toHaveBeenCalled();
+
+			vi.advanceTimersByTime(100);
+			l1.put('c', 3);
+			expect(set).not.toHaveBeenCalled();
+
+			set.mockRejectedValueOnce(new Error('offline'));
+			l1.put('d', 4);
+			await vi.advanceTimersByTimeAsync(0);
+			expect(onError).toHaveBeenCalledWith(new Error('offline'));
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});